@@ -0,0 +1,86 @@
+// Streams received files to disk for browsers without the File System Access
+// API. The page registers a download over a MessagePort, then navigates a
+// hidden iframe to its URL; this worker answers with a streaming response
+// whose body is fed by the chunks the page posts to the port. Each chunk is
+// acknowledged only once the stream has room for more, so a slow disk holds
+// the page's writes back. The page in turn pauses the sender while too many
+// writes are waiting.
+
+const downloads = new Map();
+
+// Chunks queued in the stream before the page is made to wait
+const QUEUED_CHUNKS = 16;
+
+self.addEventListener("install", () => {
+	self.skipWaiting();
+});
+
+self.addEventListener("activate", (event) => {
+	event.waitUntil(self.clients.claim());
+});
+
+self.addEventListener("message", (event) => {
+	if (event.data?.type !== "CREATE_DOWNLOAD") return;
+
+	const { url, name, size } = event.data;
+	const port = event.ports[0];
+
+	// Set while the page waits for the stream to drain
+	let isAckPending = false;
+
+	const stream = new ReadableStream(
+		{
+			start(controller) {
+				port.onmessage = ({ data }) => {
+					switch (data.type) {
+						case "CHUNK":
+							controller.enqueue(new Uint8Array(data.data));
+							if (controller.desiredSize > 0) {
+								port.postMessage({ type: "ACK" });
+							} else {
+								isAckPending = true;
+							}
+							break;
+						case "END":
+							controller.close();
+							break;
+						case "ABORT":
+							controller.error(new Error("Download aborted"));
+							break;
+					}
+				};
+			},
+			pull() {
+				if (isAckPending) {
+					isAckPending = false;
+					port.postMessage({ type: "ACK" });
+				}
+			},
+			// The user cancelled the download in the browser
+			cancel() {
+				downloads.delete(url);
+				port.postMessage({ type: "CANCELLED" });
+			},
+		},
+		new CountQueuingStrategy({ highWaterMark: QUEUED_CHUNKS }),
+	);
+
+	downloads.set(url, { stream, name, size });
+	port.postMessage({ type: "READY" });
+});
+
+self.addEventListener("fetch", (event) => {
+	const download = downloads.get(event.request.url);
+	if (!download) return;
+
+	downloads.delete(event.request.url);
+	event.respondWith(
+		new Response(download.stream, {
+			headers: {
+				"Content-Type": "application/octet-stream",
+				"Content-Length": String(download.size),
+				"Content-Disposition": `attachment; filename*=UTF-8''${encodeURIComponent(download.name)}`,
+			},
+		}),
+	);
+});
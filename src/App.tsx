@@ -1,8 +1,12 @@
 import { Github } from "lucide-react";
 import { lazy, Suspense, useEffect, useState } from "react";
+import { DiagnosticsPanel } from "@/components/DiagnosticsPanel";
+import { IdentitySettings } from "@/components/IdentitySettings";
+import { ServerSettings } from "@/components/ServerSettings";
 import { Button } from "@/components/ui/button";
 import { ThemeToggle } from "@/components/ui/theme-toggle";
 import { usePeer } from "@/hooks/usePeer";
+import { parseShareFragment } from "@/lib/shareLink";
 
 const LandingView = lazy(() =>
 	import("@/components/LandingView").then((module) => ({
@@ -31,26 +35,78 @@ export default function App() {
 
 	const {
 		peerId,
+		keyFingerprint,
 		isSender,
 		sharedFiles,
 		connectedPeers,
 		receivedFiles,
+		snippets,
+		receivedSnippets,
+		chatMessages,
+		offeredFiles,
 		downloadProgress,
+		integrityStatus,
+		pausedDownloads,
+		downloadStats,
+		sessionSummary,
 		isConnected,
 		connectionStatus,
+		connectionError,
+		safetyWords,
+		isSenderConfirmed,
 		addFiles,
+		addSnippet,
+		removeSnippet,
+		sendChatMessage,
 		connectToSender,
 		requestFile,
+		requestFolder,
+		downloadArchive,
+		pauseDownload,
+		resumeDownload,
+		cancelDownload,
+		acceptUpload,
+		offerFiles,
+		withdrawOfferedFile,
 		removeFile,
 		removePeer,
+		transferQueue,
+		prioritizeTransfer,
+		pauseTransfer,
+		resumeTransfer,
+		cancelTransfer,
+		transferLimits,
+		setTransferLimits,
+		serverConfig,
+		setServerConfig,
+		getDiagnostics,
+		approvePeer,
+		rejectPeer,
+		requireApproval,
+		setRequireApproval,
+		sharePin,
+		setSharePin,
+		pinFailures,
+		isPinLocked,
+		submitPin,
+		pinAttemptsLeft,
+		confirmPeer,
+		confirmSender,
+		senderDevice,
+		identity,
+		knownDevices,
+		setIdentityEnabled,
+		trustDeviceKey,
+		rememberDevices,
+		forgetDevice,
 	} = usePeer();
 
 	// Check for sender ID in URL hash and connect if present
 	useEffect(() => {
-		const hash = window.location.hash.slice(1); // Remove the # character
-		if (hash && hash !== peerId && !isSender) {
+		const link = parseShareFragment(window.location.hash.slice(1)); // Remove the # character
+		if (link && link.peerId !== peerId && !isSender) {
 			// Only connect if the hash is different from our own peer ID and we're not already a sender
-			connectToSender(hash);
+			connectToSender(link.peerId, link.fingerprint);
 		}
 	}, [peerId, isSender, connectToSender]);
 
@@ -72,31 +128,58 @@ export default function App() {
 	const handleQrScan = (data: string) => {
 		setShowScanner(false);
 
+		let fragment: string;
 		try {
-			const url = new URL(data);
-			const hash = url.hash.slice(1);
-			if (hash) {
-				window.location.hash = hash;
-				connectToSender(hash);
-			}
+			fragment = new URL(data).hash.slice(1);
 		} catch {
 			// If it's not a URL, treat it as a direct peer ID
-			window.location.hash = data;
-			connectToSender(data);
+			fragment = data;
+		}
+
+		const link = parseShareFragment(fragment);
+		if (link) {
+			window.location.hash = fragment;
+			connectToSender(link.peerId, link.fingerprint);
 		}
 	};
 
 	const renderContent = () => {
 		// If we have a hash in the URL and we're not the sender, show receiver view
 		const hash = window.location.hash.slice(1);
-		if (hash && hash !== peerId && !isSender) {
+		const link = parseShareFragment(hash);
+		if (link && link.peerId !== peerId && !isSender) {
 			return (
 				<ReceiverView
 					receivedFiles={receivedFiles}
+					receivedSnippets={receivedSnippets}
+					chatMessages={chatMessages}
+					onSendChatMessage={sendChatMessage}
 					downloadProgress={downloadProgress}
+					integrityStatus={integrityStatus}
+					pausedDownloads={pausedDownloads}
+					downloadStats={downloadStats}
+					sessionSummary={sessionSummary}
+					offeredFiles={offeredFiles}
+					isUploadRequest={link.isUploadRequest ?? false}
 					onRequestFile={requestFile}
+					onRequestFolder={requestFolder}
+					onDownloadArchive={downloadArchive}
+					onPauseDownload={pauseDownload}
+					onResumeDownload={resumeDownload}
+					onCancelDownload={cancelDownload}
+					onOfferFiles={offerFiles}
+					onWithdrawFile={withdrawOfferedFile}
+					onReconnect={() => connectToSender(link.peerId, link.fingerprint)}
+					onConfirmSender={confirmSender}
+					onSubmitPin={submitPin}
+					pinAttemptsLeft={pinAttemptsLeft}
+					safetyWords={safetyWords}
+					isSenderConfirmed={isSenderConfirmed}
+					senderDevice={senderDevice}
+					onTrustSender={() => trustDeviceKey(link.peerId)}
 					isConnected={isConnected}
 					connectionStatus={connectionStatus}
+					connectionError={connectionError}
 				/>
 			);
 		}
@@ -115,14 +198,49 @@ export default function App() {
 		return (
 			<SenderView
 				peerId={peerId}
+				keyFingerprint={keyFingerprint}
 				sharedFiles={sharedFiles}
 				connectedPeers={connectedPeers}
+				downloadProgress={downloadProgress}
+				integrityStatus={integrityStatus}
+				pausedDownloads={pausedDownloads}
+				downloadStats={downloadStats}
+				sessionSummary={sessionSummary}
 				onFilesSelected={(files) => {
 					setHasInteracted(true);
 					addFiles(files);
 				}}
 				onRemoveFile={removeFile}
+				snippets={snippets}
+				onAddSnippet={(text) => {
+					setHasInteracted(true);
+					addSnippet(text);
+				}}
+				onRemoveSnippet={removeSnippet}
+				chatMessages={chatMessages}
+				onSendChatMessage={sendChatMessage}
 				onRemovePeer={removePeer}
+				onConfirmPeer={confirmPeer}
+				onApprovePeer={approvePeer}
+				onRejectPeer={rejectPeer}
+				onTrustDevice={trustDeviceKey}
+				onAcceptUpload={acceptUpload}
+				onPauseDownload={pauseDownload}
+				onResumeDownload={resumeDownload}
+				onCancelDownload={cancelDownload}
+				transferQueue={transferQueue}
+				onPrioritizeTransfer={prioritizeTransfer}
+				onPauseTransfer={pauseTransfer}
+				onResumeTransfer={resumeTransfer}
+				onCancelTransfer={cancelTransfer}
+				transferLimits={transferLimits}
+				onTransferLimitsChange={setTransferLimits}
+				requireApproval={requireApproval}
+				onRequireApprovalChange={setRequireApproval}
+				sharePin={sharePin}
+				onSharePinChange={setSharePin}
+				pinFailures={pinFailures}
+				isPinLocked={isPinLocked}
 			/>
 		);
 	};
@@ -139,6 +257,18 @@ export default function App() {
 						<Github className="h-4 w-4" />
 					</a>
 				</Button>
+				<DiagnosticsPanel
+					serverConfig={serverConfig}
+					onCollect={getDiagnostics}
+				/>
+				<IdentitySettings
+					identity={identity}
+					knownDevices={knownDevices}
+					onIdentityEnabledChange={setIdentityEnabled}
+					onImportDevices={rememberDevices}
+					onRemoveDevice={forgetDevice}
+				/>
+				<ServerSettings config={serverConfig} onSave={setServerConfig} />
 				<ThemeToggle />
 			</div>
 			<div className="flex flex-col items-center justify-center w-full">
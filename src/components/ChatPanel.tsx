@@ -0,0 +1,193 @@
+import {
+	AlertCircle,
+	Check,
+	Clock,
+	MessageSquare,
+	Reply,
+	Send,
+} from "lucide-react";
+import { type FormEvent, useEffect, useRef, useState } from "react";
+import { Button } from "@/components/ui/button";
+import {
+	Card,
+	CardContent,
+	CardDescription,
+	CardHeader,
+	CardTitle,
+} from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import type {
+	ChatDeliveryStatus,
+	ChatMessage,
+	ConnectedPeer,
+} from "@/hooks/usePeer";
+
+interface ChatPanelProps {
+	messages: ChatMessage[];
+	// Sender side: receivers a message can be addressed to
+	recipients?: ConnectedPeer[];
+	onSendMessage: (text: string, recipientId?: string) => void;
+}
+
+// Sum up delivery across recipients, e.g. "Delivered to 2 of 3"
+function getDeliveryInfo(delivery: Record<string, ChatDeliveryStatus>) {
+	const statuses = Object.values(delivery);
+	const delivered = statuses.filter((s) => s === "delivered").length;
+
+	if (delivered === statuses.length) {
+		return { label: "Delivered", icon: <Check className="h-3 w-3" /> };
+	}
+	if (statuses.every((s) => s !== "sending")) {
+		return {
+			label:
+				delivered > 0
+					? `Delivered to ${delivered} of ${statuses.length}`
+					: "Not delivered",
+			icon: <AlertCircle className="h-3 w-3 text-destructive" />,
+		};
+	}
+	return { label: "Sending...", icon: <Clock className="h-3 w-3" /> };
+}
+
+function formatTime(timestamp: number) {
+	return new Date(timestamp).toLocaleTimeString([], {
+		hour: "2-digit",
+		minute: "2-digit",
+	});
+}
+
+export function ChatPanel({
+	messages,
+	recipients,
+	onSendMessage,
+}: ChatPanelProps) {
+	const [text, setText] = useState("");
+	const [recipientId, setRecipientId] = useState("");
+	const endRef = useRef<HTMLDivElement>(null);
+
+	// Fall back to everyone when the chosen receiver leaves
+	const recipient = recipients?.find((peer) => peer.id === recipientId);
+
+	// Keep the newest message in view
+	const messageCount = messages.length;
+	useEffect(() => {
+		if (messageCount > 0) {
+			endRef.current?.scrollIntoView({ block: "nearest" });
+		}
+	}, [messageCount]);
+
+	const getPeerName = (peerId: string) =>
+		recipients?.find((peer) => peer.id === peerId)?.name ?? "a receiver";
+
+	const handleSubmit = (e: FormEvent) => {
+		e.preventDefault();
+		if (!text.trim()) return;
+		onSendMessage(text, recipient?.id);
+		setText("");
+	};
+
+	return (
+		<Card>
+			<CardHeader>
+				<CardTitle className="flex items-center gap-2">
+					<MessageSquare className="h-5 w-5" />
+					Chat
+				</CardTitle>
+				<CardDescription>
+					Messages are end-to-end encrypted and only last for this session
+				</CardDescription>
+			</CardHeader>
+			<CardContent className="space-y-3">
+				<ScrollArea className="h-48 w-full">
+					{messages.length === 0 ? (
+						<p className="text-center py-8 text-sm text-muted-foreground">
+							No messages yet
+						</p>
+					) : (
+						<div className="space-y-2 pr-3">
+							{messages.map((message) => {
+								const deliveryInfo = message.isOwn
+									? getDeliveryInfo(message.delivery)
+									: null;
+								return (
+									<div
+										key={message.id}
+										className={`max-w-[85%] rounded-lg px-3 py-2 ${
+											message.isOwn ? "ml-auto bg-primary/10" : "bg-muted"
+										}`}
+									>
+										<div className="flex items-center gap-2 text-xs text-muted-foreground">
+											<span className="font-medium text-foreground">
+												{message.isOwn ? "You" : message.author}
+											</span>
+											{recipients && message.isOwn && (
+												<span>
+													to{" "}
+													{message.peerId
+														? getPeerName(message.peerId)
+														: "everyone"}
+												</span>
+											)}
+											<span>{formatTime(message.sentAt)}</span>
+											{recipients && !message.isOwn && message.peerId && (
+												<Button
+													variant="ghost"
+													size="sm"
+													onClick={() => setRecipientId(message.peerId ?? "")}
+													className="h-5 w-5 p-0 ml-auto"
+													title={`Reply to ${message.author}`}
+												>
+													<Reply className="h-3 w-3" />
+												</Button>
+											)}
+										</div>
+										<p className="text-sm whitespace-pre-wrap break-words">
+											{message.text}
+										</p>
+										{deliveryInfo && (
+											<p className="flex items-center justify-end gap-1 text-xs text-muted-foreground">
+												{deliveryInfo.icon}
+												{deliveryInfo.label}
+											</p>
+										)}
+									</div>
+								);
+							})}
+							<div ref={endRef} />
+						</div>
+					)}
+				</ScrollArea>
+
+				<form onSubmit={handleSubmit} className="flex gap-2">
+					{recipients && (
+						<select
+							value={recipient?.id ?? ""}
+							onChange={(e) => setRecipientId(e.target.value)}
+							className="h-9 rounded-md border bg-transparent px-2 text-sm"
+							aria-label="Send to"
+						>
+							<option value="">Everyone</option>
+							{recipients.map((peer) => (
+								<option key={peer.id} value={peer.id}>
+									{peer.name}
+								</option>
+							))}
+						</select>
+					)}
+					<Input
+						value={text}
+						onChange={(e) => setText(e.target.value)}
+						placeholder={
+							recipient ? `Message ${recipient.name}` : "Type a message"
+						}
+						className="flex-1"
+					/>
+					<Button type="submit" disabled={!text.trim()} title="Send">
+						<Send className="h-4 w-4" />
+					</Button>
+				</form>
+			</CardContent>
+		</Card>
+	);
+}
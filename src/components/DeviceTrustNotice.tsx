@@ -0,0 +1,91 @@
+import { ShieldAlert, ShieldCheck, ShieldPlus } from "lucide-react";
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
+import { Button } from "@/components/ui/button";
+import { type DeviceTrust, formatFingerprint } from "@/lib/identity";
+
+interface DeviceTrustNoticeProps {
+	device: DeviceTrust;
+	onTrust: () => void;
+}
+
+// Whether a peer's long-term identity matches the key pinned for it. A
+// changed key gets a warning in the spirit of SSH's host key check, and so
+// does a new device borrowing a known device's name.
+export function DeviceTrustNotice({ device, onTrust }: DeviceTrustNoticeProps) {
+	if (device.status === "changed") {
+		return (
+			<Alert variant="destructive" className="mt-2 text-left">
+				<ShieldAlert className="h-4 w-4" />
+				<AlertTitle>Device identity changed!</AlertTitle>
+				<AlertDescription>
+					<p>
+						{device.name} presented a different key than when you last saw it.
+						Someone may be impersonating it. Only trust the new key if you know
+						the device was reset or its identity recreated.
+					</p>
+					{device.previousFingerprint && (
+						<p className="font-mono text-xs">
+							Was {formatFingerprint(device.previousFingerprint)}
+						</p>
+					)}
+					<p className="font-mono text-xs">
+						Now {formatFingerprint(device.fingerprint)}
+					</p>
+					<Button
+						variant="outline"
+						size="sm"
+						onClick={onTrust}
+						className="mt-1 h-7 px-2 text-xs"
+					>
+						Trust new key
+					</Button>
+				</AlertDescription>
+			</Alert>
+		);
+	}
+
+	if (device.isNameTaken) {
+		return (
+			<Alert className="mt-2 text-left">
+				<ShieldAlert className="h-4 w-4" />
+				<AlertTitle>Unknown device named {device.name}</AlertTitle>
+				<AlertDescription>
+					<p>
+						A device you know goes by this name, but this is a different one.
+						Someone may be impersonating it. It won't be remembered unless you
+						trust it.
+					</p>
+					<p className="font-mono text-xs">
+						{formatFingerprint(device.fingerprint)}
+					</p>
+					<Button
+						variant="outline"
+						size="sm"
+						onClick={onTrust}
+						className="mt-1 h-7 px-2 text-xs"
+					>
+						Trust this device
+					</Button>
+				</AlertDescription>
+			</Alert>
+		);
+	}
+
+	return device.status === "known" ? (
+		<span
+			className="flex items-center gap-1 text-xs text-green-500"
+			title={formatFingerprint(device.fingerprint)}
+		>
+			<ShieldCheck className="h-3 w-3" />
+			Known device: {device.name}
+		</span>
+	) : (
+		<span
+			className="flex items-center gap-1 text-xs text-muted-foreground"
+			title={formatFingerprint(device.fingerprint)}
+		>
+			<ShieldPlus className="h-3 w-3" />
+			New device {device.name}, remembered from now on
+		</span>
+	);
+}
@@ -0,0 +1,236 @@
+import {
+	Activity,
+	AlertCircle,
+	ArrowDownLeft,
+	ArrowUpRight,
+	Download,
+	RefreshCw,
+} from "lucide-react";
+import { useEffect, useState } from "react";
+import { Button } from "@/components/ui/button";
+import {
+	Dialog,
+	DialogContent,
+	DialogDescription,
+	DialogFooter,
+	DialogHeader,
+	DialogTitle,
+	DialogTrigger,
+} from "@/components/ui/dialog";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import {
+	type ConnectionStats,
+	createDiagnosticsReport,
+	type DiagnosticsEvent,
+	type DiagnosticsSnapshot,
+} from "@/lib/diagnostics";
+import type { ServerConfig } from "@/lib/servers";
+
+interface DiagnosticsPanelProps {
+	serverConfig: ServerConfig;
+	onCollect: () => Promise<DiagnosticsSnapshot>;
+}
+
+const REFRESH_INTERVAL = 1000;
+
+function shortId(peerId: string | null) {
+	return peerId ? peerId.slice(0, 8) : "self";
+}
+
+function EventIcon({ event }: { event: DiagnosticsEvent }) {
+	switch (event.kind) {
+		case "sent":
+			return <ArrowUpRight className="h-3 w-3 text-muted-foreground" />;
+		case "received":
+			return <ArrowDownLeft className="h-3 w-3 text-muted-foreground" />;
+		case "error":
+			return <AlertCircle className="h-3 w-3 text-destructive" />;
+		default:
+			return <RefreshCw className="h-3 w-3 text-muted-foreground" />;
+	}
+}
+
+function ConnectionDetails({ connection }: { connection: ConnectionStats }) {
+	return (
+		<div className="space-y-2 p-3 border rounded-lg">
+			<p className="font-medium font-mono text-xs">
+				{shortId(connection.peerId)}
+			</p>
+			<div className="grid grid-cols-3 gap-2 text-xs">
+				<div>
+					<p className="text-muted-foreground">Connection</p>
+					<p>{connection.connectionState}</p>
+				</div>
+				<div>
+					<p className="text-muted-foreground">ICE</p>
+					<p>{connection.iceConnectionState}</p>
+				</div>
+				<div>
+					<p className="text-muted-foreground">Data channel</p>
+					<p>{connection.dataChannelState}</p>
+				</div>
+			</div>
+			{connection.candidatePairs.length === 0 ? (
+				<p className="text-xs text-muted-foreground">No candidate pairs yet</p>
+			) : (
+				<div className="space-y-1 text-xs font-mono">
+					{connection.candidatePairs.map((pair, index) => (
+						<div
+							// Pairs have no stable identity across refreshes
+							key={index}
+							className={`flex flex-wrap gap-x-2 ${
+								pair.isSelected ? "text-foreground" : "text-muted-foreground"
+							}`}
+						>
+							<span>
+								{pair.local.type}/{pair.local.protocol} → {pair.remote.type}/
+								{pair.remote.protocol}
+							</span>
+							<span>{pair.state}</span>
+							{pair.rttMs !== null && <span>{pair.rttMs} ms</span>}
+							{pair.isSelected && <span>(in use)</span>}
+						</div>
+					))}
+				</div>
+			)}
+		</div>
+	);
+}
+
+export function DiagnosticsPanel({
+	serverConfig,
+	onCollect,
+}: DiagnosticsPanelProps) {
+	const [isOpen, setIsOpen] = useState(false);
+	const [snapshot, setSnapshot] = useState<DiagnosticsSnapshot | null>(null);
+
+	// Refresh while the panel is open
+	useEffect(() => {
+		if (!isOpen) return;
+
+		let isCancelled = false;
+		const refresh = () => {
+			onCollect()
+				.then((next) => {
+					if (!isCancelled) setSnapshot(next);
+				})
+				.catch((error) => {
+					console.error("Failed to collect diagnostics:", error);
+				});
+		};
+		refresh();
+		const interval = setInterval(refresh, REFRESH_INTERVAL);
+		return () => {
+			isCancelled = true;
+			clearInterval(interval);
+		};
+	}, [isOpen, onCollect]);
+
+	const handleExport = () => {
+		if (!snapshot) return;
+		const report = createDiagnosticsReport(snapshot, serverConfig);
+		const url = URL.createObjectURL(
+			new Blob([report], { type: "application/json" }),
+		);
+		const link = document.createElement("a");
+		link.href = url;
+		link.download = `dropshare-diagnostics-${Date.now()}.json`;
+		link.click();
+		URL.revokeObjectURL(url);
+	};
+
+	const events = snapshot ? [...snapshot.events].reverse() : [];
+
+	return (
+		<Dialog open={isOpen} onOpenChange={setIsOpen}>
+			<DialogTrigger asChild>
+				<Button variant="ghost" size="icon" aria-label="Connection diagnostics">
+					<Activity className="h-4 w-4" />
+				</Button>
+			</DialogTrigger>
+			<DialogContent className="max-h-[90vh] overflow-y-auto sm:max-w-2xl">
+				<DialogHeader>
+					<DialogTitle className="flex items-center gap-2">
+						<Activity className="h-5 w-5" />
+						Connection Diagnostics
+					</DialogTitle>
+					<DialogDescription>
+						Live connection details. Message contents are never recorded, and
+						the exported report leaves out peer IDs, addresses and credentials.
+					</DialogDescription>
+				</DialogHeader>
+
+				{snapshot && (
+					<div className="space-y-4 text-sm">
+						<div className="grid grid-cols-2 gap-2">
+							<div>
+								<p className="text-xs text-muted-foreground">Signalling</p>
+								<p>{snapshot.signallingState}</p>
+							</div>
+							<div>
+								<p className="text-xs text-muted-foreground">Last error</p>
+								{snapshot.lastError ? (
+									<p className="text-destructive break-words">
+										<span className="font-mono">{snapshot.lastError.type}</span>
+										{snapshot.lastError.detail &&
+											`: ${snapshot.lastError.detail}`}
+									</p>
+								) : (
+									<p>None</p>
+								)}
+							</div>
+						</div>
+
+						<div className="space-y-2">
+							<h4 className="font-medium">
+								Connections ({snapshot.connections.length})
+							</h4>
+							{snapshot.connections.map((connection) => (
+								<ConnectionDetails
+									key={connection.peerId}
+									connection={connection}
+								/>
+							))}
+						</div>
+
+						<div className="space-y-2">
+							<h4 className="font-medium">Message Log</h4>
+							<ScrollArea className="h-48 w-full border rounded-lg">
+								<div className="p-2 space-y-1 text-xs font-mono">
+									{events.length === 0 && (
+										<p className="text-muted-foreground">No events yet</p>
+									)}
+									{events.map((event) => (
+										<div
+											key={`${event.at}-${event.kind}-${event.type}-${event.peerId}`}
+											className="flex items-center gap-2"
+										>
+											<span className="text-muted-foreground">
+												{new Date(event.at).toLocaleTimeString()}
+											</span>
+											<EventIcon event={event} />
+											<span className="text-muted-foreground">
+												{shortId(event.peerId)}
+											</span>
+											<span className="truncate">
+												{event.type}
+												{event.count > 1 && ` ×${event.count}`}
+											</span>
+										</div>
+									))}
+								</div>
+							</ScrollArea>
+						</div>
+					</div>
+				)}
+
+				<DialogFooter>
+					<Button onClick={handleExport} disabled={!snapshot} variant="outline">
+						<Download className="mr-2 h-4 w-4" />
+						Export report
+					</Button>
+				</DialogFooter>
+			</DialogContent>
+		</Dialog>
+	);
+}
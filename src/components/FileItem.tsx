@@ -4,11 +4,19 @@ import {
 	Download,
 	FileText,
 	Loader2,
+	Pause,
+	Play,
+	ShieldAlert,
+	ShieldCheck,
 	Trash2,
+	X,
 } from "lucide-react";
 import { useState } from "react";
+import { TransferStatsLine } from "@/components/TransferStatsLine";
 import { Button } from "@/components/ui/button";
 import { Progress } from "@/components/ui/progress";
+import type { IntegrityStatus } from "@/hooks/usePeer";
+import type { TransferStats } from "@/lib/stats";
 
 interface BaseFileItemProps {
 	id: string;
@@ -21,7 +29,13 @@ interface ReceiverFileItemProps extends BaseFileItemProps {
 	variant: "receiver";
 	isDownloading?: boolean;
 	downloadProgress?: number;
+	integrityStatus?: IntegrityStatus;
+	isPaused?: boolean;
+	stats?: TransferStats;
 	onRequestFile: (fileId: string) => void;
+	onPauseDownload?: (fileId: string) => void;
+	onResumeDownload?: (fileId: string) => void;
+	onCancelDownload?: (fileId: string) => void;
 }
 
 interface SenderFileItemProps extends BaseFileItemProps {
@@ -64,6 +78,10 @@ export function FileItem(props: FileItemProps) {
 		variant === "receiver" ? props.isDownloading || false : false;
 	const downloadProgress =
 		variant === "receiver" ? props.downloadProgress || 0 : 0;
+	const integrityStatus =
+		variant === "receiver" ? props.integrityStatus : undefined;
+	const isPaused = variant === "receiver" ? props.isPaused || false : false;
+	const stats = variant === "receiver" ? props.stats : undefined;
 
 	const fileExtension = getFileExtension(name);
 	const truncatedName = truncateFileName(name);
@@ -101,10 +119,57 @@ export function FileItem(props: FileItemProps) {
 							{formatFileSize(size)}
 							{fileExtension && ` • ${fileExtension}`}
 						</p>
+						{integrityStatus === "verified" && (
+							<p className="flex items-center gap-1 text-xs text-green-500 mt-0.5">
+								<ShieldCheck className="h-3 w-3" />
+								Verified
+							</p>
+						)}
+						{integrityStatus === "failed" && (
+							<p className="flex items-center gap-1 text-xs text-destructive mt-0.5">
+								<ShieldAlert className="h-3 w-3" />
+								Integrity check failed, file was not saved
+							</p>
+						)}
 					</div>
 
 					{/* Action Button - Fixed width, always visible */}
-					<div className="flex-shrink-0">
+					<div className="flex-shrink-0 flex items-center gap-1">
+						{variant === "receiver" &&
+							isDownloading &&
+							props.onPauseDownload &&
+							props.onResumeDownload && (
+								<Button
+									variant="ghost"
+									size="sm"
+									onClick={() =>
+										isPaused
+											? props.onResumeDownload?.(id)
+											: props.onPauseDownload?.(id)
+									}
+									className="h-8 w-8 p-0"
+									title={isPaused ? "Resume" : "Pause"}
+								>
+									{isPaused ? (
+										<Play className="h-3 w-3" />
+									) : (
+										<Pause className="h-3 w-3" />
+									)}
+								</Button>
+							)}
+						{variant === "receiver" &&
+							isDownloading &&
+							props.onCancelDownload && (
+								<Button
+									variant="ghost"
+									size="sm"
+									onClick={() => props.onCancelDownload?.(id)}
+									className="h-8 w-8 p-0 text-destructive hover:text-destructive"
+									title="Cancel"
+								>
+									<X className="h-3 w-3" />
+								</Button>
+							)}
 						{variant === "receiver" ? (
 							<Button
 								onClick={() => props.onRequestFile(id)}
@@ -114,8 +179,12 @@ export function FileItem(props: FileItemProps) {
 							>
 								{isDownloading ? (
 									<>
-										<Loader2 className="h-3 w-3 mr-1 animate-spin" />
-										<span className="hidden sm:inline">Downloading</span>
+										{!isPaused && (
+											<Loader2 className="h-3 w-3 mr-1 animate-spin" />
+										)}
+										<span className="hidden sm:inline">
+											{isPaused ? "Paused" : "Downloading"}
+										</span>
 										<span className="sm:hidden">...</span>
 									</>
 								) : (
@@ -144,8 +213,10 @@ export function FileItem(props: FileItemProps) {
 					<div className="space-y-1">
 						<Progress value={downloadProgress} className="h-1.5" />
 						<p className="text-xs text-muted-foreground">
-							Downloading... {downloadProgress.toFixed(0)}%
+							{isPaused ? "Paused at" : "Downloading..."}{" "}
+							{downloadProgress.toFixed(0)}%
 						</p>
+						{stats && !isPaused && <TransferStatsLine stats={stats} />}
 					</div>
 				)}
 			</div>
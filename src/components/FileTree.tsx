@@ -0,0 +1,142 @@
+import {
+	ChevronDown,
+	ChevronRight,
+	Download,
+	Folder,
+	FolderOpen,
+} from "lucide-react";
+import { useState } from "react";
+import { FileItem } from "@/components/FileItem";
+import { Button } from "@/components/ui/button";
+import type { FileManifestEntry, IntegrityStatus } from "@/hooks/usePeer";
+import {
+	buildFileTree,
+	type FileTreeFolder,
+	getFolderFiles,
+} from "@/lib/fileTree";
+import type { TransferStats } from "@/lib/stats";
+
+interface FileTreeProps {
+	files: FileManifestEntry[];
+	downloadProgress: Record<string, number>;
+	integrityStatus: Record<string, IntegrityStatus>;
+	pausedDownloads: Record<string, boolean>;
+	downloadStats: Record<string, TransferStats>;
+	selectedFileIds: Set<string>;
+	onSelectionChange: (fileIds: string[], isSelected: boolean) => void;
+	onRequestFile: (fileId: string) => void;
+	onRequestFolder: (folderPath: string) => void;
+	onPauseDownload: (fileId: string) => void;
+	onResumeDownload: (fileId: string) => void;
+	onCancelDownload: (fileId: string) => void;
+}
+
+export function FileTree({ files, ...props }: FileTreeProps) {
+	const tree = buildFileTree(files);
+
+	return <FolderContents folder={tree} {...props} />;
+}
+
+interface FolderContentsProps extends Omit<FileTreeProps, "files"> {
+	folder: FileTreeFolder<FileManifestEntry>;
+}
+
+function FolderContents({ folder, ...props }: FolderContentsProps) {
+	const {
+		downloadProgress,
+		integrityStatus,
+		pausedDownloads,
+		downloadStats,
+		selectedFileIds,
+		onSelectionChange,
+		onRequestFile,
+		onPauseDownload,
+		onResumeDownload,
+		onCancelDownload,
+	} = props;
+
+	return (
+		<div className="space-y-3">
+			{folder.folders.map((child) => (
+				<FolderNode key={child.path} folder={child} {...props} />
+			))}
+			{folder.files.map((file) => (
+				<div key={file.id} className="flex items-center gap-2">
+					<input
+						type="checkbox"
+						aria-label={`Select ${file.name}`}
+						checked={selectedFileIds.has(file.id)}
+						onChange={(e) => onSelectionChange([file.id], e.target.checked)}
+						className="h-4 w-4 flex-shrink-0 accent-primary"
+					/>
+					<div className="flex-1 min-w-0">
+						<FileItem
+							id={file.id}
+							name={file.name}
+							size={file.size}
+							variant="receiver"
+							isDownloading={file.id in downloadProgress}
+							downloadProgress={downloadProgress[file.id] || 0}
+							integrityStatus={integrityStatus[file.id]}
+							isPaused={pausedDownloads[file.id]}
+							stats={downloadStats[file.id]}
+							onRequestFile={onRequestFile}
+							onPauseDownload={onPauseDownload}
+							onResumeDownload={onResumeDownload}
+							onCancelDownload={onCancelDownload}
+						/>
+					</div>
+				</div>
+			))}
+		</div>
+	);
+}
+
+function FolderNode({ folder, ...props }: FolderContentsProps) {
+	const [isOpen, setIsOpen] = useState(true);
+	const FolderIcon = isOpen ? FolderOpen : Folder;
+	const fileIds = getFolderFiles(folder).map((file) => file.id);
+	const isSelected = fileIds.every((id) => props.selectedFileIds.has(id));
+
+	return (
+		<div>
+			<div className="flex items-center justify-between gap-3 p-2 border rounded-lg">
+				<input
+					type="checkbox"
+					aria-label={`Select ${folder.name}`}
+					checked={isSelected}
+					onChange={(e) => props.onSelectionChange(fileIds, e.target.checked)}
+					className="h-4 w-4 flex-shrink-0 accent-primary"
+				/>
+				<button
+					type="button"
+					onClick={() => setIsOpen(!isOpen)}
+					className="flex items-center gap-2 min-w-0 flex-1 text-left"
+				>
+					{isOpen ? (
+						<ChevronDown className="h-4 w-4 flex-shrink-0" />
+					) : (
+						<ChevronRight className="h-4 w-4 flex-shrink-0" />
+					)}
+					<FolderIcon className="h-5 w-5 flex-shrink-0 text-muted-foreground" />
+					<span className="font-medium text-sm truncate">{folder.name}</span>
+				</button>
+				<Button
+					onClick={() => props.onRequestFolder(folder.path)}
+					size="sm"
+					variant="outline"
+					className="h-8 px-3 flex-shrink-0"
+				>
+					<Download className="h-3 w-3 mr-1" />
+					<span className="hidden sm:inline">Download folder</span>
+					<span className="sm:hidden">Get</span>
+				</Button>
+			</div>
+			{isOpen && (
+				<div className="mt-3 ml-4 pl-3 border-l">
+					<FolderContents folder={folder} {...props} />
+				</div>
+			)}
+		</div>
+	);
+}
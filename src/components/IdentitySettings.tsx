@@ -0,0 +1,191 @@
+import { Download, Fingerprint, Trash2, Upload } from "lucide-react";
+import { type ChangeEvent, useRef, useState } from "react";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { Button } from "@/components/ui/button";
+import {
+	Dialog,
+	DialogContent,
+	DialogDescription,
+	DialogFooter,
+	DialogHeader,
+	DialogTitle,
+	DialogTrigger,
+} from "@/components/ui/dialog";
+import { getIdentityFingerprint } from "@/lib/crypto";
+import {
+	type DeviceIdentity,
+	exportKnownDevices,
+	formatFingerprint,
+	type KnownDevice,
+	parseKnownDevices,
+} from "@/lib/identity";
+
+interface IdentitySettingsProps {
+	identity: DeviceIdentity | null;
+	knownDevices: KnownDevice[];
+	onIdentityEnabledChange: (isEnabled: boolean) => void;
+	onImportDevices: (devices: KnownDevice[]) => void;
+	onRemoveDevice: (deviceId: string) => void;
+}
+
+export function IdentitySettings({
+	identity,
+	knownDevices,
+	onIdentityEnabledChange,
+	onImportDevices,
+	onRemoveDevice,
+}: IdentitySettingsProps) {
+	const [importError, setImportError] = useState<string | null>(null);
+	const fileInputRef = useRef<HTMLInputElement>(null);
+
+	const sortedDevices = [...knownDevices].sort(
+		(a, b) => b.lastSeen - a.lastSeen,
+	);
+
+	const handleExport = () => {
+		const url = URL.createObjectURL(
+			new Blob([exportKnownDevices(knownDevices)], {
+				type: "application/json",
+			}),
+		);
+		const link = document.createElement("a");
+		link.href = url;
+		link.download = "dropshare-known-devices.json";
+		link.click();
+		URL.revokeObjectURL(url);
+	};
+
+	const handleImport = async (e: ChangeEvent<HTMLInputElement>) => {
+		const file = e.target.files?.[0];
+		e.target.value = "";
+		if (!file) return;
+
+		try {
+			onImportDevices(parseKnownDevices(await file.text()));
+			setImportError(null);
+		} catch (error) {
+			setImportError(error instanceof Error ? error.message : String(error));
+		}
+	};
+
+	return (
+		<Dialog onOpenChange={() => setImportError(null)}>
+			<DialogTrigger asChild>
+				<Button variant="ghost" size="icon" aria-label="Device identity">
+					<Fingerprint className="h-4 w-4" />
+				</Button>
+			</DialogTrigger>
+			<DialogContent className="max-h-[90vh] overflow-y-auto">
+				<DialogHeader>
+					<DialogTitle className="flex items-center gap-2">
+						<Fingerprint className="h-5 w-5" />
+						Device Identity
+					</DialogTitle>
+					<DialogDescription>
+						Devices with an identity keep the same key across visits. Each one
+						you meet is pinned to the key it first presented, and you're warned
+						if it later shows up with a different one.
+					</DialogDescription>
+				</DialogHeader>
+
+				<div className="space-y-4 text-sm">
+					<div className="space-y-2">
+						<label className="flex items-center gap-2 font-medium">
+							<input
+								type="checkbox"
+								checked={identity !== null}
+								onChange={(e) => onIdentityEnabledChange(e.target.checked)}
+								className="h-4 w-4 accent-primary"
+							/>
+							Remember this device's identity
+						</label>
+						{identity ? (
+							<div className="p-3 border rounded-lg">
+								<p className="font-medium">{identity.name}</p>
+								<p className="font-mono text-xs text-muted-foreground">
+									{formatFingerprint(
+										getIdentityFingerprint(identity.signingKeyPair.publicKey),
+									)}
+								</p>
+							</div>
+						) : (
+							<p className="text-xs text-muted-foreground">
+								Without an identity this device uses new keys on every visit, so
+								others can't recognize it.
+							</p>
+						)}
+					</div>
+
+					<div className="space-y-2">
+						<h4 className="font-medium">
+							Known Devices ({knownDevices.length})
+						</h4>
+						{sortedDevices.length === 0 ? (
+							<p className="text-xs text-muted-foreground">
+								No devices yet. Devices with an identity are added the first
+								time you connect to them.
+							</p>
+						) : (
+							sortedDevices.map((device) => (
+								<div
+									key={device.id}
+									className="flex items-center justify-between gap-2 p-2 border rounded-lg"
+								>
+									<div className="min-w-0">
+										<p className="font-medium truncate">{device.name}</p>
+										<p className="font-mono text-xs text-muted-foreground truncate">
+											{formatFingerprint(device.fingerprint)}
+										</p>
+										<p className="text-xs text-muted-foreground">
+											Last seen {new Date(device.lastSeen).toLocaleString()}
+										</p>
+									</div>
+									<Button
+										variant="ghost"
+										size="icon"
+										onClick={() => onRemoveDevice(device.id)}
+										className="h-8 w-8 flex-shrink-0"
+										title={`Forget ${device.name}`}
+									>
+										<Trash2 className="h-4 w-4" />
+									</Button>
+								</div>
+							))
+						)}
+					</div>
+
+					{importError && (
+						<Alert variant="destructive">
+							<AlertDescription>{importError}</AlertDescription>
+						</Alert>
+					)}
+				</div>
+
+				<DialogFooter className="gap-2">
+					<input
+						ref={fileInputRef}
+						type="file"
+						accept="application/json,.json"
+						onChange={handleImport}
+						className="hidden"
+					/>
+					<Button
+						variant="outline"
+						onClick={() => fileInputRef.current?.click()}
+					>
+						<Upload className="mr-2 h-4 w-4" />
+						Import
+					</Button>
+					<Button
+						variant="outline"
+						onClick={handleExport}
+						disabled={knownDevices.length === 0}
+					>
+						<Download className="mr-2 h-4 w-4" />
+						Export
+					</Button>
+				</DialogFooter>
+			</DialogContent>
+		</Dialog>
+	);
+}
@@ -0,0 +1,120 @@
+import { Check, X } from "lucide-react";
+import { DeviceTrustNotice } from "@/components/DeviceTrustNotice";
+import { SafetyWords } from "@/components/SafetyWords";
+import { TransferStatsLine } from "@/components/TransferStatsLine";
+import { Button } from "@/components/ui/button";
+import { Progress } from "@/components/ui/progress";
+import type { ConnectedPeer } from "@/hooks/usePeer";
+import { getProgress } from "@/lib/stats";
+
+interface PeerItemProps {
+	peer: ConnectedPeer;
+	onRemovePeer: (peerId: string) => void;
+	onConfirmPeer: (peerId: string) => void;
+	onApprovePeer: (peerId: string) => void;
+	onRejectPeer: (peerId: string) => void;
+	onTrustDevice: (peerId: string) => void;
+}
+
+export function PeerItem({
+	peer,
+	onRemovePeer,
+	onConfirmPeer,
+	onApprovePeer,
+	onRejectPeer,
+	onTrustDevice,
+}: PeerItemProps) {
+	const isPendingApproval = peer.isVerified && !peer.isApproved;
+	// A changed key has to be trusted before the peer can be let in
+	const isDeviceChanged = peer.device?.status === "changed";
+
+	const getStatusText = () => {
+		if (!peer.isVerified) return " (Verifying...)";
+		if (isPendingApproval) return " (Awaiting approval)";
+		return " (Verified)";
+	};
+
+	return (
+		<div className="flex items-center justify-between p-3 border rounded-lg">
+			<div className="flex items-center min-w-0 flex-1">
+				<div
+					className={`w-3 h-3 rounded-full mr-3 ${
+						peer.isVerified && !isPendingApproval
+							? "bg-green-500"
+							: "bg-yellow-500 animate-pulse"
+					}`}
+				/>
+				<div className="min-w-0 flex-1">
+					<p className="font-medium">{peer.name}</p>
+					<p className="text-xs text-muted-foreground">
+						{peer.id.slice(0, 8)}...
+						{getStatusText()}
+					</p>
+					{peer.device && (
+						<DeviceTrustNotice
+							device={peer.device}
+							onTrust={() => onTrustDevice(peer.id)}
+						/>
+					)}
+					{peer.safetyWords && (
+						<SafetyWords
+							words={peer.safetyWords}
+							isConfirmed={peer.isConfirmed}
+							onConfirm={() => onConfirmPeer(peer.id)}
+						/>
+					)}
+					{peer.uploads.map((upload) => (
+						<div key={upload.fileId} className="mt-2 space-y-1">
+							<div className="flex justify-between gap-2 text-xs">
+								<span className="truncate">{upload.name}</span>
+								<span className="text-muted-foreground flex-shrink-0">
+									{getProgress(upload.stats).toFixed(0)}%
+								</span>
+							</div>
+							<Progress value={getProgress(upload.stats)} className="h-1.5" />
+							<TransferStatsLine stats={upload.stats} />
+						</div>
+					))}
+					{peer.completedDownloads > 0 && (
+						<p className="text-xs text-muted-foreground mt-1">
+							{peer.completedDownloads}{" "}
+							{peer.completedDownloads === 1 ? "download" : "downloads"}{" "}
+							completed
+						</p>
+					)}
+				</div>
+			</div>
+			{isPendingApproval ? (
+				<div className="flex items-center gap-1">
+					<Button
+						size="sm"
+						onClick={() => onApprovePeer(peer.id)}
+						disabled={isDeviceChanged}
+						title={isDeviceChanged ? "Trust the new key first" : undefined}
+						className="h-8 px-3"
+					>
+						<Check className="h-3 w-3 mr-1" />
+						Accept
+					</Button>
+					<Button
+						variant="outline"
+						size="sm"
+						onClick={() => onRejectPeer(peer.id)}
+						className="h-8 px-3 text-destructive hover:text-destructive"
+					>
+						Reject
+					</Button>
+				</div>
+			) : (
+				<Button
+					variant="ghost"
+					size="icon"
+					onClick={() => onRemovePeer(peer.id)}
+					className="h-8 w-8"
+				>
+					<X className="h-4 w-4" />
+				</Button>
+			)}
+		</div>
+	);
+}
@@ -0,0 +1,46 @@
+import { KeyRound } from "lucide-react";
+import { type FormEvent, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+
+interface PinPromptProps {
+	attemptsLeft: number | null;
+	onSubmitPin: (pin: string) => void;
+}
+
+export function PinPrompt({ attemptsLeft, onSubmitPin }: PinPromptProps) {
+	const [pin, setPin] = useState("");
+
+	const handleSubmit = (e: FormEvent) => {
+		e.preventDefault();
+		if (!pin.trim()) return;
+		onSubmitPin(pin);
+		setPin("");
+	};
+
+	return (
+		<form onSubmit={handleSubmit} className="w-full max-w-xs space-y-2">
+			<div className="flex gap-2">
+				<Input
+					type="password"
+					inputMode="numeric"
+					autoComplete="off"
+					placeholder="Enter PIN"
+					value={pin}
+					onChange={(e) => setPin(e.target.value)}
+					autoFocus
+				/>
+				<Button type="submit" disabled={!pin.trim()}>
+					<KeyRound className="mr-2 h-4 w-4" />
+					Unlock
+				</Button>
+			</div>
+			{attemptsLeft !== null && (
+				<p className="text-xs text-destructive">
+					Incorrect PIN. {attemptsLeft}{" "}
+					{attemptsLeft === 1 ? "attempt" : "attempts"} left.
+				</p>
+			)}
+		</form>
+	);
+}
@@ -1,5 +1,24 @@
-import { FileText, Loader2, Wifi, WifiOff } from "lucide-react";
-import { FileItem } from "@/components/FileItem";
+import {
+	Clock,
+	FileArchive,
+	FileText,
+	KeyRound,
+	Loader2,
+	RefreshCw,
+	ShieldX,
+	Wifi,
+	WifiOff,
+} from "lucide-react";
+import { useState } from "react";
+import { ChatPanel } from "@/components/ChatPanel";
+import { DeviceTrustNotice } from "@/components/DeviceTrustNotice";
+import { FileTree } from "@/components/FileTree";
+import { PinPrompt } from "@/components/PinPrompt";
+import { SafetyWords } from "@/components/SafetyWords";
+import { SessionSummary } from "@/components/SessionSummary";
+import { SnippetItem } from "@/components/SnippetItem";
+import { UploadCard } from "@/components/UploadCard";
+import { Button } from "@/components/ui/button";
 import {
 	Card,
 	CardContent,
@@ -8,42 +27,107 @@ import {
 	CardTitle,
 } from "@/components/ui/card";
 import { ScrollArea } from "@/components/ui/scroll-area";
-
-interface ReceiverFile {
-	id: string;
-	name: string;
-	size: number;
-}
+import type {
+	ChatMessage,
+	ConnectionStatus,
+	FileManifestEntry,
+	IntegrityStatus,
+	SharedFile,
+	TextSnippet,
+} from "@/hooks/usePeer";
+import type { DeviceTrust } from "@/lib/identity";
+import type {
+	SessionSummary as SessionSummaryData,
+	TransferStats,
+} from "@/lib/stats";
 
 interface ReceiverViewProps {
-	receivedFiles: ReceiverFile[];
+	receivedFiles: FileManifestEntry[];
+	receivedSnippets: TextSnippet[];
+	chatMessages: ChatMessage[];
+	onSendChatMessage: (text: string) => void;
 	downloadProgress: Record<string, number>;
+	integrityStatus: Record<string, IntegrityStatus>;
+	pausedDownloads: Record<string, boolean>;
+	downloadStats: Record<string, TransferStats>;
+	sessionSummary: SessionSummaryData;
+	offeredFiles: SharedFile[];
+	isUploadRequest: boolean;
 	onRequestFile: (fileId: string) => void;
+	onRequestFolder: (folderPath: string) => void;
+	onDownloadArchive: (fileIds: string[]) => void;
+	onPauseDownload: (fileId: string) => void;
+	onResumeDownload: (fileId: string) => void;
+	onCancelDownload: (fileId: string) => void;
+	onOfferFiles: (files: File[]) => void;
+	onWithdrawFile: (fileId: string) => void;
+	onReconnect: () => void;
+	onConfirmSender: () => void;
+	onSubmitPin: (pin: string) => void;
+	pinAttemptsLeft: number | null;
+	safetyWords: string[] | null;
+	isSenderConfirmed: boolean;
+	senderDevice: DeviceTrust | null;
+	onTrustSender: () => void;
 	isConnected: boolean;
-	connectionStatus:
-		| "connecting"
-		| "verifying"
-		| "connected"
-		| "error"
-		| "disconnected";
+	connectionStatus: ConnectionStatus;
+	connectionError: string | null;
 }
 
 export function ReceiverView({
 	receivedFiles,
+	receivedSnippets,
+	chatMessages,
+	onSendChatMessage,
 	downloadProgress,
+	integrityStatus,
+	pausedDownloads,
+	downloadStats,
+	sessionSummary,
+	offeredFiles,
+	isUploadRequest,
 	onRequestFile,
+	onRequestFolder,
+	onDownloadArchive,
+	onPauseDownload,
+	onResumeDownload,
+	onCancelDownload,
+	onOfferFiles,
+	onWithdrawFile,
+	onReconnect,
+	onConfirmSender,
+	onSubmitPin,
+	pinAttemptsLeft,
+	safetyWords,
+	isSenderConfirmed,
+	senderDevice,
+	onTrustSender,
 	isConnected,
 	connectionStatus,
+	connectionError,
 }: ReceiverViewProps) {
-	const isDownloading = (fileId: string) => {
-		return fileId in downloadProgress;
-	};
+	const [selectedFileIds, setSelectedFileIds] = useState<Set<string>>(
+		() => new Set(),
+	);
+
+	// Ignore selections of files the sender has since removed
+	const selectedFiles = receivedFiles
+		.filter((file) => selectedFileIds.has(file.id))
+		.map((file) => file.id);
 
-	const getDownloadProgress = (fileId: string) => {
-		return downloadProgress[fileId] || 0;
+	const handleSelectionChange = (fileIds: string[], isSelected: boolean) => {
+		setSelectedFileIds((prev) => {
+			const next = new Set(prev);
+			for (const id of fileIds) {
+				if (isSelected) next.add(id);
+				else next.delete(id);
+			}
+			return next;
+		});
 	};
 
 	if (!isConnected) {
+		const hasPartialDownloads = Object.keys(downloadProgress).length > 0;
 		const getStatusInfo = () => {
 			switch (connectionStatus) {
 				case "connecting":
@@ -58,17 +142,54 @@ export function ReceiverView({
 						description: "Performing security verification with the sender",
 						icon: <Loader2 className="h-5 w-5 animate-spin" />,
 					};
+				case "awaiting-pin":
+					return {
+						title: "PIN Required",
+						description: "Enter the PIN the sender read out to you",
+						icon: <KeyRound className="h-5 w-5" />,
+					};
+				case "awaiting-approval":
+					return {
+						title: "Waiting for Approval",
+						description: "The sender needs to accept your connection request",
+						icon: <Clock className="h-5 w-5" />,
+					};
+				case "device-changed":
+					return {
+						title: "Sender Identity Changed",
+						description:
+							"Nothing is transferred until you trust the sender's new key",
+						icon: <ShieldX className="h-5 w-5 text-destructive" />,
+					};
+				case "rejected":
+					return {
+						title: "Request Declined",
+						description:
+							connectionError ?? "The sender declined your request to connect.",
+						icon: <ShieldX className="h-5 w-5 text-destructive" />,
+					};
 				case "error":
 					return {
 						title: "Connection Failed",
 						description:
+							connectionError ??
 							"Failed to establish secure connection. Please try again.",
 						icon: <Wifi className="h-5 w-5 text-destructive" />,
 					};
+				case "reconnecting":
+					return {
+						title: "Reconnecting...",
+						description: hasPartialDownloads
+							? "Lost the connection to the sender. Your downloads will resume once it's back."
+							: "Lost the connection to the sender. Trying to get it back.",
+						icon: <RefreshCw className="h-5 w-5 animate-spin" />,
+					};
 				case "disconnected":
 					return {
 						title: "Disconnected",
-						description: "The sender has disconnected.",
+						description: hasPartialDownloads
+							? "The sender has disconnected. Reconnect to resume your downloads."
+							: "The sender has disconnected.",
 						icon: <WifiOff className="h-5 w-5" />,
 					};
 				default:
@@ -81,6 +202,8 @@ export function ReceiverView({
 		};
 
 		const statusInfo = getStatusInfo();
+		const canReconnect =
+			connectionStatus === "error" || connectionStatus === "disconnected";
 
 		return (
 			<Card className="w-full max-w-lg mx-auto text-center">
@@ -92,11 +215,26 @@ export function ReceiverView({
 					<CardDescription>{statusInfo.description}</CardDescription>
 				</CardHeader>
 				<CardContent>
+					{senderDevice?.status === "changed" && (
+						<DeviceTrustNotice device={senderDevice} onTrust={onTrustSender} />
+					)}
 					<div className="flex items-center justify-center py-8">
-						{connectionStatus !== "error" &&
-							connectionStatus !== "disconnected" && (
+						{connectionStatus === "awaiting-pin" ? (
+							<PinPrompt
+								attemptsLeft={pinAttemptsLeft}
+								onSubmitPin={onSubmitPin}
+							/>
+						) : canReconnect ? (
+							<Button onClick={onReconnect} variant="outline">
+								<RefreshCw className="mr-2 h-4 w-4" />
+								Reconnect
+							</Button>
+						) : (
+							connectionStatus !== "rejected" &&
+							connectionStatus !== "device-changed" && (
 								<Loader2 className="h-8 w-8 animate-spin text-muted-foreground" />
-							)}
+							)
+						)}
 					</div>
 				</CardContent>
 			</Card>
@@ -104,7 +242,16 @@ export function ReceiverView({
 	}
 
 	return (
-		<div className="w-full max-w-2xl mx-auto">
+		<div className="w-full max-w-2xl mx-auto space-y-4">
+			{isUploadRequest && (
+				<UploadCard
+					offeredFiles={offeredFiles}
+					isUploadRequest={isUploadRequest}
+					onFilesSelected={onOfferFiles}
+					onRemoveFile={onWithdrawFile}
+				/>
+			)}
+
 			<Card>
 				<CardHeader>
 					<CardTitle className="flex items-center gap-2">
@@ -112,12 +259,47 @@ export function ReceiverView({
 						Available Files ({receivedFiles.length})
 					</CardTitle>
 					<CardDescription>
-						Files shared by the sender. Click download to save them to your
-						device.
+						Files and text shared by the sender. Click download to save files to
+						your device, or download a whole folder to keep its structure.
 					</CardDescription>
+					{receivedFiles.length > 0 && (
+						<div className="flex flex-col sm:flex-row gap-2 pt-2">
+							<Button
+								onClick={() =>
+									onDownloadArchive(receivedFiles.map((file) => file.id))
+								}
+								variant="outline"
+								className="flex-1"
+							>
+								<FileArchive className="mr-2 h-4 w-4" />
+								Download all as ZIP
+							</Button>
+							<Button
+								onClick={() => onDownloadArchive(selectedFiles)}
+								variant="outline"
+								className="flex-1"
+								disabled={selectedFiles.length === 0}
+							>
+								<FileArchive className="mr-2 h-4 w-4" />
+								Download selected ({selectedFiles.length})
+							</Button>
+						</div>
+					)}
 				</CardHeader>
 				<CardContent>
-					{receivedFiles.length === 0 ? (
+					{receivedSnippets.length > 0 && (
+						<div className="space-y-2 mb-4">
+							{receivedSnippets.map((snippet) => (
+								<SnippetItem
+									key={snippet.id}
+									id={snippet.id}
+									text={snippet.text}
+									variant="receiver"
+								/>
+							))}
+						</div>
+					)}
+					{receivedFiles.length === 0 && receivedSnippets.length === 0 && (
 						<div className="text-center py-12 text-muted-foreground">
 							<FileText className="h-16 w-16 mx-auto mb-4 opacity-50" />
 							<p className="text-lg font-medium mb-2">No files available</p>
@@ -126,38 +308,67 @@ export function ReceiverView({
 								when they're added.
 							</p>
 						</div>
-					) : (
+					)}
+					{receivedFiles.length > 0 && (
 						<ScrollArea className="max-h-96 w-full">
-							<div className="space-y-3">
-								{receivedFiles.map((file) => {
-									const downloading = isDownloading(file.id);
-									const progress = getDownloadProgress(file.id);
-
-									return (
-										<FileItem
-											key={file.id}
-											id={file.id}
-											name={file.name}
-											size={file.size}
-											variant="receiver"
-											isDownloading={downloading}
-											downloadProgress={progress}
-											onRequestFile={onRequestFile}
-										/>
-									);
-								})}
-							</div>
+							<FileTree
+								files={receivedFiles}
+								downloadProgress={downloadProgress}
+								integrityStatus={integrityStatus}
+								pausedDownloads={pausedDownloads}
+								downloadStats={downloadStats}
+								selectedFileIds={selectedFileIds}
+								onSelectionChange={handleSelectionChange}
+								onRequestFile={onRequestFile}
+								onRequestFolder={onRequestFolder}
+								onPauseDownload={onPauseDownload}
+								onResumeDownload={onResumeDownload}
+								onCancelDownload={onCancelDownload}
+							/>
 						</ScrollArea>
 					)}
 				</CardContent>
 			</Card>
 
+			{!isUploadRequest && (
+				<UploadCard
+					offeredFiles={offeredFiles}
+					isUploadRequest={isUploadRequest}
+					onFilesSelected={onOfferFiles}
+					onRemoveFile={onWithdrawFile}
+				/>
+			)}
+
+			<ChatPanel
+				messages={chatMessages}
+				onSendMessage={(text) => onSendChatMessage(text)}
+			/>
+
+			<SessionSummary summary={sessionSummary} />
+
 			{/* Connection Status */}
-			<div className="mt-4 text-center">
+			<div className="text-center">
 				<div className="flex items-center justify-center gap-2 text-sm text-muted-foreground">
 					<div className="w-2 h-2 bg-green-500 rounded-full animate-pulse" />
 					Connected to sender
 				</div>
+				{senderDevice && (
+					<div className="mt-2 flex justify-center">
+						<DeviceTrustNotice device={senderDevice} onTrust={onTrustSender} />
+					</div>
+				)}
+				{safetyWords && (
+					<div className="mt-2 flex flex-col items-center gap-1">
+						<p className="text-xs text-muted-foreground">
+							Check that the sender sees the same safety words:
+						</p>
+						<SafetyWords
+							words={safetyWords}
+							isConfirmed={isSenderConfirmed}
+							onConfirm={onConfirmSender}
+						/>
+					</div>
+				)}
 			</div>
 		</div>
 	);
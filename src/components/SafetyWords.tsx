@@ -0,0 +1,37 @@
+import { ShieldCheck } from "lucide-react";
+import { Button } from "@/components/ui/button";
+
+interface SafetyWordsProps {
+	words: string[];
+	isConfirmed: boolean;
+	onConfirm: () => void;
+}
+
+export function SafetyWords({
+	words,
+	isConfirmed,
+	onConfirm,
+}: SafetyWordsProps) {
+	return (
+		<div className="flex flex-wrap items-center gap-2">
+			<p className="font-mono text-xs" title="Safety words">
+				{words.join(" ")}
+			</p>
+			{isConfirmed ? (
+				<span className="flex items-center gap-1 text-xs text-green-500">
+					<ShieldCheck className="h-3 w-3" />
+					Confirmed
+				</span>
+			) : (
+				<Button
+					variant="outline"
+					size="sm"
+					onClick={onConfirm}
+					className="h-6 px-2 text-xs"
+				>
+					Confirm match
+				</Button>
+			)}
+		</div>
+	);
+}
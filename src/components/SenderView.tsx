@@ -3,16 +3,25 @@ import {
 	Check,
 	Copy,
 	FileText,
+	FolderUp,
+	Inbox,
 	Info,
+	KeyRound,
 	QrCode,
 	Share2,
+	TextQuote,
+	Upload,
 	Users,
-	X,
 } from "lucide-react";
-import { useState } from "react";
+import { useRef, useState } from "react";
 import { useDropzone } from "react-dropzone";
 import QRCode from "react-qr-code";
+import { ChatPanel } from "@/components/ChatPanel";
 import { FileItem } from "@/components/FileItem";
+import { PeerItem } from "@/components/PeerItem";
+import { SessionSummary } from "@/components/SessionSummary";
+import { SnippetItem } from "@/components/SnippetItem";
+import { TransferQueue } from "@/components/TransferQueue";
 import { Alert, AlertDescription } from "@/components/ui/alert";
 import { Button } from "@/components/ui/button";
 import {
@@ -22,35 +31,118 @@ import {
 	CardHeader,
 	CardTitle,
 } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
 import { ScrollArea } from "@/components/ui/scroll-area";
+import { Textarea } from "@/components/ui/textarea";
 import {
 	Tooltip,
 	TooltipContent,
 	TooltipProvider,
 	TooltipTrigger,
 } from "@/components/ui/tooltip";
-import type { ConnectedPeer, SharedFile } from "@/hooks/usePeer";
+import {
+	type ChatMessage,
+	type ConnectedPeer,
+	type IntegrityStatus,
+	MAX_PIN_FAILURES,
+	type SharedFile,
+	type TextSnippet,
+} from "@/hooks/usePeer";
 import { useWindowSize } from "@/hooks/useWindowSize";
+import { getRelativePath } from "@/lib/fileTree";
+import type { ScheduledTransfer, TransferLimits } from "@/lib/scheduler";
+import { buildShareLink } from "@/lib/shareLink";
+import type {
+	SessionSummary as SessionSummaryData,
+	TransferStats,
+} from "@/lib/stats";
 
 interface SenderViewProps {
 	peerId: string | null;
+	keyFingerprint: string | null;
 	sharedFiles: SharedFile[];
 	connectedPeers: ConnectedPeer[];
+	downloadProgress: Record<string, number>;
+	integrityStatus: Record<string, IntegrityStatus>;
+	pausedDownloads: Record<string, boolean>;
+	downloadStats: Record<string, TransferStats>;
+	sessionSummary: SessionSummaryData;
 	onFilesSelected: (files: File[]) => void;
 	onRemoveFile: (fileId: string) => void;
+	snippets: TextSnippet[];
+	onAddSnippet: (text: string) => void;
+	onRemoveSnippet: (snippetId: string) => void;
+	chatMessages: ChatMessage[];
+	onSendChatMessage: (text: string, recipientId?: string) => void;
 	onRemovePeer: (peerId: string) => void;
+	onConfirmPeer: (peerId: string) => void;
+	onApprovePeer: (peerId: string) => void;
+	onRejectPeer: (peerId: string) => void;
+	onTrustDevice: (peerId: string) => void;
+	onAcceptUpload: (fileId: string) => void;
+	onPauseDownload: (fileId: string) => void;
+	onResumeDownload: (fileId: string) => void;
+	onCancelDownload: (fileId: string) => void;
+	transferQueue: ScheduledTransfer[];
+	onPrioritizeTransfer: (transferId: string) => void;
+	onPauseTransfer: (transferId: string) => void;
+	onResumeTransfer: (transferId: string) => void;
+	onCancelTransfer: (transferId: string) => void;
+	transferLimits: TransferLimits;
+	onTransferLimitsChange: (limits: TransferLimits) => void;
+	requireApproval: boolean;
+	onRequireApprovalChange: (requireApproval: boolean) => void;
+	sharePin: string | null;
+	onSharePinChange: (sharePin: string | null) => void;
+	pinFailures: number;
+	isPinLocked: boolean;
 }
 
 export function SenderView({
 	peerId,
+	keyFingerprint,
 	sharedFiles,
 	connectedPeers,
+	downloadProgress,
+	integrityStatus,
+	pausedDownloads,
+	downloadStats,
+	sessionSummary,
 	onFilesSelected,
 	onRemoveFile,
+	snippets,
+	onAddSnippet,
+	onRemoveSnippet,
+	chatMessages,
+	onSendChatMessage,
 	onRemovePeer,
+	onConfirmPeer,
+	onApprovePeer,
+	onRejectPeer,
+	onTrustDevice,
+	onAcceptUpload,
+	onPauseDownload,
+	onResumeDownload,
+	onCancelDownload,
+	transferQueue,
+	onPrioritizeTransfer,
+	onPauseTransfer,
+	onResumeTransfer,
+	onCancelTransfer,
+	transferLimits,
+	onTransferLimitsChange,
+	requireApproval,
+	onRequireApprovalChange,
+	sharePin,
+	onSharePinChange,
+	pinFailures,
+	isPinLocked,
 }: SenderViewProps) {
 	const [copySuccess, setCopySuccess] = useState(false);
+	const [uploadCopySuccess, setUploadCopySuccess] = useState(false);
 	const [shareError, setShareError] = useState<string | null>(null);
+	const [snippetText, setSnippetText] = useState("");
+	const folderInputRef = useRef<HTMLInputElement>(null);
 	const { isMobile } = useWindowSize();
 	const isShareSupported = isMobile && "share" in navigator;
 
@@ -58,7 +150,27 @@ export function SenderView({
 		onDrop: onFilesSelected,
 	});
 
-	const qrValue = peerId ? `${window.location.origin}/dropshare#${peerId}` : "";
+	const qrValue = peerId
+		? buildShareLink({ peerId, fingerprint: keyFingerprint ?? undefined })
+		: "";
+
+	const uploadRequestLink = peerId
+		? buildShareLink({
+				peerId,
+				fingerprint: keyFingerprint ?? undefined,
+				isUploadRequest: true,
+			})
+		: "";
+
+	// Receivers that can be chatted with
+	const chatRecipients = connectedPeers.filter(
+		(peer) => peer.isVerified && peer.isApproved,
+	);
+
+	// Files offered back to us by receivers, across all connections
+	const incomingFiles = connectedPeers.flatMap((peer) =>
+		peer.offeredFiles.map((file) => ({ ...file, peerName: peer.name })),
+	);
 
 	const handleCopyUrl = async () => {
 		try {
@@ -70,6 +182,27 @@ export function SenderView({
 		}
 	};
 
+	const handleCopyUploadRequestLink = async () => {
+		try {
+			await navigator.clipboard.writeText(uploadRequestLink);
+			setUploadCopySuccess(true);
+			setTimeout(() => setUploadCopySuccess(false), 2000);
+		} catch (err) {
+			console.error("Failed to copy URL:", err);
+		}
+	};
+
+	const handleShareText = () => {
+		onAddSnippet(snippetText);
+		setSnippetText("");
+	};
+
+	// Six random digits, easy to read out loud
+	const handleGeneratePin = () => {
+		const value = crypto.getRandomValues(new Uint32Array(1))[0] % 1_000_000;
+		onSharePinChange(value.toString().padStart(6, "0"));
+	};
+
 	const handleShare = async () => {
 		setShareError(null);
 		if (isShareSupported) {
@@ -164,6 +297,65 @@ export function SenderView({
 										</div>
 									)}
 								</div>
+								<Button
+									onClick={handleCopyUploadRequestLink}
+									variant="outline"
+									className="w-full"
+									disabled={uploadCopySuccess}
+									title="A link that asks the receiver to send files to you"
+								>
+									{uploadCopySuccess ? (
+										<>
+											<Check className="mr-2 h-4 w-4" />
+											Copied!
+										</>
+									) : (
+										<>
+											<Upload className="mr-2 h-4 w-4" />
+											Copy Upload Request Link
+										</>
+									)}
+								</Button>
+								<div className="flex gap-2">
+									<Input
+										placeholder="Optional PIN"
+										autoComplete="off"
+										value={sharePin ?? ""}
+										onChange={(e) => onSharePinChange(e.target.value || null)}
+										className="font-mono"
+									/>
+									<Button
+										onClick={handleGeneratePin}
+										variant="outline"
+										title="Generate a random PIN"
+									>
+										<KeyRound className="h-4 w-4" />
+									</Button>
+								</div>
+								{sharePin && (
+									<p className="text-xs text-muted-foreground">
+										Receivers must enter this PIN to connect. Read it out loud
+										instead of sending it with the link.
+									</p>
+								)}
+								{sharePin && isPinLocked ? (
+									<Alert variant="destructive">
+										<AlertCircle className="h-4 w-4" />
+										<AlertDescription>
+											PIN locked after {pinFailures} incorrect attempts. Set a
+											new PIN to let receivers in again.
+										</AlertDescription>
+									</Alert>
+								) : (
+									sharePin &&
+									pinFailures > 0 && (
+										<p className="text-xs text-destructive">
+											{pinFailures} incorrect{" "}
+											{pinFailures === 1 ? "attempt" : "attempts"}. The PIN
+											locks after {MAX_PIN_FAILURES}.
+										</p>
+									)
+								)}
 								{shareError && (
 									<Alert variant="destructive">
 										<AlertCircle className="h-4 w-4" />
@@ -189,7 +381,8 @@ export function SenderView({
 					<CardHeader>
 						<CardTitle>Share Files</CardTitle>
 						<CardDescription>
-							Drop files here or click to select files to share
+							Drop files or folders here, or click to select files to share.
+							Links, commands and passwords can be shared as text.
 						</CardDescription>
 					</CardHeader>
 					<CardContent className="space-y-4">
@@ -211,6 +404,66 @@ export function SenderView({
 							</p>
 						</div>
 
+						{/* Folder picker, keeps each file's path inside the folder */}
+						<input
+							ref={folderInputRef}
+							type="file"
+							hidden
+							multiple
+							{...{ webkitdirectory: "" }}
+							onChange={(e) => {
+								onFilesSelected(Array.from(e.target.files ?? []));
+								e.target.value = "";
+							}}
+						/>
+						<Button
+							onClick={() => folderInputRef.current?.click()}
+							variant="outline"
+							className="w-full"
+						>
+							<FolderUp className="mr-2 h-4 w-4" />
+							Select Folder
+						</Button>
+
+						{/* Text snippets, sent to receivers as they are added */}
+						<div className="space-y-2">
+							<Textarea
+								value={snippetText}
+								onChange={(e) => setSnippetText(e.target.value)}
+								placeholder="Paste a link, command or password"
+								className="max-h-40 font-mono"
+							/>
+							<Button
+								onClick={handleShareText}
+								variant="outline"
+								className="w-full"
+								disabled={!snippetText.trim()}
+							>
+								<TextQuote className="mr-2 h-4 w-4" />
+								Share Text
+							</Button>
+						</div>
+
+						{/* Shared Text List */}
+						{snippets.length > 0 && (
+							<div>
+								<h4 className="font-medium mb-2">Shared Text</h4>
+								<ScrollArea className="max-h-40 w-full">
+									<div className="space-y-2">
+										{snippets.map((snippet) => (
+											<SnippetItem
+												key={snippet.id}
+												id={snippet.id}
+												text={snippet.text}
+												variant="sender"
+												onRemoveSnippet={onRemoveSnippet}
+											/>
+										))}
+									</div>
+								</ScrollArea>
+							</div>
+						)}
+
 						{/* Shared Files List */}
 						{sharedFiles.length > 0 && (
 							<div>
@@ -221,7 +474,10 @@ export function SenderView({
 											<FileItem
 												key={sharedFile.id}
 												id={sharedFile.id}
-												name={sharedFile.file.name}
+												name={
+													getRelativePath(sharedFile.file) ??
+													sharedFile.file.name
+												}
 												size={sharedFile.file.size}
 												variant="sender"
 												onRemoveFile={onRemoveFile}
@@ -242,8 +498,18 @@ export function SenderView({
 							Connected Receivers ({connectedPeers.length})
 						</CardTitle>
 						<CardDescription>
-							Devices currently connected to receive your files
+							Devices currently connected to receive your files. Compare the
+							safety words with each receiver to confirm the connection.
 						</CardDescription>
+						<label className="flex items-center gap-2 text-sm">
+							<input
+								type="checkbox"
+								checked={requireApproval}
+								onChange={(e) => onRequireApprovalChange(e.target.checked)}
+								className="h-4 w-4 accent-primary"
+							/>
+							Require approval before receivers can see files
+						</label>
 					</CardHeader>
 					<CardContent>
 						{connectedPeers.length === 0 ? (
@@ -258,37 +524,15 @@ export function SenderView({
 							<ScrollArea className="h-40 w-full">
 								<div className="space-y-2">
 									{connectedPeers.map((peer) => (
-										<div
+										<PeerItem
 											key={peer.id}
-											className="flex items-center justify-between p-3 border rounded-lg"
-										>
-											<div className="flex items-center">
-												<div
-													className={`w-3 h-3 rounded-full mr-3 ${
-														peer.isVerified
-															? "bg-green-500"
-															: "bg-yellow-500 animate-pulse"
-													}`}
-												/>
-												<div>
-													<p className="font-medium">{peer.name}</p>
-													<p className="text-xs text-muted-foreground">
-														{peer.id.slice(0, 8)}...
-														{peer.isVerified
-															? " (Verified)"
-															: " (Verifying...)"}
-													</p>
-												</div>
-											</div>
-											<Button
-												variant="ghost"
-												size="icon"
-												onClick={() => onRemovePeer(peer.id)}
-												className="h-8 w-8"
-											>
-												<X className="h-4 w-4" />
-											</Button>
-										</div>
+											peer={peer}
+											onRemovePeer={onRemovePeer}
+											onConfirmPeer={onConfirmPeer}
+											onApprovePeer={onApprovePeer}
+											onRejectPeer={onRejectPeer}
+											onTrustDevice={onTrustDevice}
+										/>
 									))}
 								</div>
 							</ScrollArea>
@@ -296,6 +540,71 @@ export function SenderView({
 					</CardContent>
 				</Card>
 			</div>
+
+			<TransferQueue
+				transfers={transferQueue}
+				connectedPeers={connectedPeers}
+				limits={transferLimits}
+				onPrioritize={onPrioritizeTransfer}
+				onPause={onPauseTransfer}
+				onResume={onResumeTransfer}
+				onCancel={onCancelTransfer}
+				onLimitsChange={onTransferLimitsChange}
+			/>
+
+			{/* Files offered by receivers */}
+			{incomingFiles.length > 0 && (
+				<Card>
+					<CardHeader>
+						<CardTitle className="flex items-center gap-2">
+							<Inbox className="h-5 w-5" />
+							Inbox ({incomingFiles.length})
+						</CardTitle>
+						<CardDescription>
+							Files receivers are offering to you. Only download files from
+							receivers you trust.
+						</CardDescription>
+					</CardHeader>
+					<CardContent>
+						<ScrollArea className="max-h-96 w-full">
+							<div className="space-y-3">
+								{incomingFiles.map((file) => (
+									<div key={file.id}>
+										<p className="text-xs text-muted-foreground mb-1">
+											From {file.peerName}
+										</p>
+										<FileItem
+											id={file.id}
+											name={file.name}
+											size={file.size}
+											variant="receiver"
+											isDownloading={file.id in downloadProgress}
+											downloadProgress={downloadProgress[file.id] || 0}
+											integrityStatus={integrityStatus[file.id]}
+											isPaused={pausedDownloads[file.id]}
+											stats={downloadStats[file.id]}
+											onRequestFile={onAcceptUpload}
+											onPauseDownload={onPauseDownload}
+											onResumeDownload={onResumeDownload}
+											onCancelDownload={onCancelDownload}
+										/>
+									</div>
+								))}
+							</div>
+						</ScrollArea>
+					</CardContent>
+				</Card>
+			)}
+
+			{(chatRecipients.length > 0 || chatMessages.length > 0) && (
+				<ChatPanel
+					messages={chatMessages}
+					recipients={chatRecipients}
+					onSendMessage={onSendChatMessage}
+				/>
+			)}
+
+			<SessionSummary summary={sessionSummary} />
 		</div>
 	);
 }
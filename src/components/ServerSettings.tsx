@@ -0,0 +1,312 @@
+import {
+	CheckCircle2,
+	Loader2,
+	MinusCircle,
+	Network,
+	Settings,
+	XCircle,
+} from "lucide-react";
+import { useState } from "react";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { Button } from "@/components/ui/button";
+import {
+	Dialog,
+	DialogContent,
+	DialogDescription,
+	DialogFooter,
+	DialogHeader,
+	DialogTitle,
+	DialogTrigger,
+} from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import {
+	type CheckResult,
+	type ConnectivityReport,
+	checkConnectivity,
+	parseUrlList,
+	type ServerConfig,
+} from "@/lib/servers";
+
+interface ServerSettingsProps {
+	config: ServerConfig;
+	onSave: (config: ServerConfig | null) => void;
+}
+
+// Editable copy of the settings, as typed
+interface ServerForm {
+	useCustomServer: boolean;
+	host: string;
+	port: string;
+	path: string;
+	key: string;
+	secure: boolean;
+	stunUrls: string;
+	turnUrls: string;
+	turnUsername: string;
+	turnCredential: string;
+}
+
+function toForm(config: ServerConfig): ServerForm {
+	return {
+		useCustomServer: config.peerServer !== null,
+		host: config.peerServer?.host ?? "",
+		port: String(config.peerServer?.port ?? 443),
+		path: config.peerServer?.path ?? "/",
+		key: config.peerServer?.key ?? "peerjs",
+		secure: config.peerServer?.secure ?? true,
+		stunUrls: config.stunUrls.join("\n"),
+		turnUrls: config.turn?.urls.join("\n") ?? "",
+		turnUsername: config.turn?.username ?? "",
+		turnCredential: config.turn?.credential ?? "",
+	};
+}
+
+// Turn the form into settings, or an error message explaining what's wrong
+function toServerConfig(form: ServerForm): ServerConfig | string {
+	const port = Number(form.port);
+	if (form.useCustomServer) {
+		if (!form.host.trim()) return "Enter the host of your PeerJS server.";
+		if (!Number.isInteger(port) || port < 1 || port > 65535) {
+			return "The port must be a number between 1 and 65535.";
+		}
+	}
+
+	const turnUrls = parseUrlList(form.turnUrls);
+	return {
+		peerServer: form.useCustomServer
+			? {
+					host: form.host.trim(),
+					port,
+					path: form.path.trim() || "/",
+					key: form.key.trim() || "peerjs",
+					secure: form.secure,
+				}
+			: null,
+		stunUrls: parseUrlList(form.stunUrls),
+		turn:
+			turnUrls.length > 0
+				? {
+						urls: turnUrls,
+						username: form.turnUsername,
+						credential: form.turnCredential,
+					}
+				: null,
+	};
+}
+
+function CheckResultRow({
+	label,
+	result,
+}: {
+	label: string;
+	result: CheckResult;
+}) {
+	const icon =
+		result.status === "ok" ? (
+			<CheckCircle2 className="h-4 w-4 text-green-500" />
+		) : result.status === "failed" ? (
+			<XCircle className="h-4 w-4 text-destructive" />
+		) : (
+			<MinusCircle className="h-4 w-4 text-muted-foreground" />
+		);
+
+	return (
+		<div className="flex items-start gap-2 text-sm">
+			<span className="mt-0.5">{icon}</span>
+			<div>
+				<p className="font-medium">{label}</p>
+				<p className="text-xs text-muted-foreground">{result.detail}</p>
+			</div>
+		</div>
+	);
+}
+
+export function ServerSettings({ config, onSave }: ServerSettingsProps) {
+	const [isOpen, setIsOpen] = useState(false);
+	const [form, setForm] = useState(() => toForm(config));
+	const [error, setError] = useState<string | null>(null);
+	const [report, setReport] = useState<ConnectivityReport | null>(null);
+	const [isChecking, setIsChecking] = useState(false);
+
+	const update = (changes: Partial<ServerForm>) => {
+		setForm((prev) => ({ ...prev, ...changes }));
+		setReport(null);
+	};
+
+	const handleOpenChange = (open: boolean) => {
+		// Start from the settings in use each time
+		if (open) {
+			setForm(toForm(config));
+			setError(null);
+			setReport(null);
+		}
+		setIsOpen(open);
+	};
+
+	const handleCheck = async () => {
+		const newConfig = toServerConfig(form);
+		if (typeof newConfig === "string") {
+			setError(newConfig);
+			return;
+		}
+
+		setError(null);
+		setIsChecking(true);
+		try {
+			setReport(await checkConnectivity(newConfig));
+		} finally {
+			setIsChecking(false);
+		}
+	};
+
+	const handleSave = () => {
+		const newConfig = toServerConfig(form);
+		if (typeof newConfig === "string") {
+			setError(newConfig);
+			return;
+		}
+		onSave(newConfig);
+		setIsOpen(false);
+	};
+
+	const handleReset = () => {
+		onSave(null);
+		setIsOpen(false);
+	};
+
+	return (
+		<Dialog open={isOpen} onOpenChange={handleOpenChange}>
+			<DialogTrigger asChild>
+				<Button variant="ghost" size="icon" aria-label="Server settings">
+					<Settings className="h-4 w-4" />
+				</Button>
+			</DialogTrigger>
+			<DialogContent className="max-h-[90vh] overflow-y-auto">
+				<DialogHeader>
+					<DialogTitle className="flex items-center gap-2">
+						<Network className="h-5 w-5" />
+						Server Settings
+					</DialogTitle>
+					<DialogDescription>
+						Servers used to find and reach other devices. Both sides must use
+						the same signalling server. Saving reconnects with a new share link.
+					</DialogDescription>
+				</DialogHeader>
+
+				<div className="space-y-4 text-sm">
+					<div className="space-y-2">
+						<label className="flex items-center gap-2 font-medium">
+							<input
+								type="checkbox"
+								checked={form.useCustomServer}
+								onChange={(e) => update({ useCustomServer: e.target.checked })}
+								className="h-4 w-4 accent-primary"
+							/>
+							Use my own PeerJS server
+						</label>
+						{form.useCustomServer && (
+							<div className="grid grid-cols-2 gap-2">
+								<Input
+									value={form.host}
+									onChange={(e) => update({ host: e.target.value })}
+									placeholder="Host, e.g. peer.example.com"
+									className="col-span-2"
+								/>
+								<Input
+									value={form.port}
+									onChange={(e) => update({ port: e.target.value })}
+									placeholder="Port"
+									inputMode="numeric"
+								/>
+								<Input
+									value={form.path}
+									onChange={(e) => update({ path: e.target.value })}
+									placeholder="Path"
+								/>
+								<Input
+									value={form.key}
+									onChange={(e) => update({ key: e.target.value })}
+									placeholder="Key"
+								/>
+								<label className="flex items-center gap-2">
+									<input
+										type="checkbox"
+										checked={form.secure}
+										onChange={(e) => update({ secure: e.target.checked })}
+										className="h-4 w-4 accent-primary"
+									/>
+									Secure (HTTPS)
+								</label>
+							</div>
+						)}
+					</div>
+
+					<div className="space-y-2">
+						<p className="font-medium">STUN servers</p>
+						<Textarea
+							value={form.stunUrls}
+							onChange={(e) => update({ stunUrls: e.target.value })}
+							placeholder="stun:stun.example.com:3478"
+							className="font-mono text-xs"
+						/>
+					</div>
+
+					<div className="space-y-2">
+						<p className="font-medium">TURN server</p>
+						<p className="text-xs text-muted-foreground">
+							Relays traffic when a direct connection isn't possible, such as
+							behind symmetric NAT or strict firewalls.
+						</p>
+						<Textarea
+							value={form.turnUrls}
+							onChange={(e) => update({ turnUrls: e.target.value })}
+							placeholder="turn:turn.example.com:3478"
+							className="font-mono text-xs"
+						/>
+						<div className="grid grid-cols-2 gap-2">
+							<Input
+								value={form.turnUsername}
+								onChange={(e) => update({ turnUsername: e.target.value })}
+								placeholder="Username"
+								autoComplete="off"
+							/>
+							<Input
+								type="password"
+								value={form.turnCredential}
+								onChange={(e) => update({ turnCredential: e.target.value })}
+								placeholder="Credential"
+								autoComplete="new-password"
+							/>
+						</div>
+					</div>
+
+					{error && (
+						<Alert variant="destructive">
+							<AlertDescription>{error}</AlertDescription>
+						</Alert>
+					)}
+
+					{report && (
+						<div className="space-y-2 p-3 border rounded-lg">
+							<CheckResultRow label="Signalling" result={report.signalling} />
+							<CheckResultRow label="STUN" result={report.stun} />
+							<CheckResultRow label="TURN" result={report.turn} />
+						</div>
+					)}
+				</div>
+
+				<DialogFooter className="gap-2">
+					<Button variant="ghost" onClick={handleReset}>
+						Reset to defaults
+					</Button>
+					<Button variant="outline" onClick={handleCheck} disabled={isChecking}>
+						{isChecking && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+						Check connectivity
+					</Button>
+					<Button onClick={handleSave}>Save</Button>
+				</DialogFooter>
+			</DialogContent>
+		</Dialog>
+	);
+}
@@ -0,0 +1,74 @@
+import { BarChart3 } from "lucide-react";
+import {
+	Card,
+	CardContent,
+	CardDescription,
+	CardHeader,
+	CardTitle,
+} from "@/components/ui/card";
+import {
+	formatBytes,
+	formatSpeed,
+	getAverageSpeed,
+	type SessionSummary as SessionSummaryData,
+} from "@/lib/stats";
+
+interface SessionSummaryProps {
+	summary: SessionSummaryData;
+}
+
+export function SessionSummary({ summary }: SessionSummaryProps) {
+	const peers = Object.entries(summary.peers);
+	if (peers.length === 0) return null;
+
+	return (
+		<Card>
+			<CardHeader>
+				<CardTitle className="flex items-center gap-2">
+					<BarChart3 className="h-5 w-5" />
+					Session Summary
+				</CardTitle>
+				<CardDescription>
+					Completed transfers since this page was opened
+				</CardDescription>
+			</CardHeader>
+			<CardContent className="space-y-4">
+				<div className="grid grid-cols-2 sm:grid-cols-4 gap-4 text-sm">
+					<div>
+						<p className="text-muted-foreground text-xs">Total</p>
+						<p className="font-medium">
+							{formatBytes(summary.bytesSent + summary.bytesReceived)}
+						</p>
+					</div>
+					<div>
+						<p className="text-muted-foreground text-xs">Sent</p>
+						<p className="font-medium">{formatBytes(summary.bytesSent)}</p>
+					</div>
+					<div>
+						<p className="text-muted-foreground text-xs">Received</p>
+						<p className="font-medium">{formatBytes(summary.bytesReceived)}</p>
+					</div>
+					<div>
+						<p className="text-muted-foreground text-xs">Average speed</p>
+						<p className="font-medium">
+							{formatSpeed(getAverageSpeed(summary))}
+						</p>
+					</div>
+				</div>
+				<div className="space-y-1">
+					{peers.map(([peerId, peer]) => (
+						<div
+							key={peerId}
+							className="flex items-center justify-between text-sm"
+						>
+							<span className="font-medium">{peer.name}</span>
+							<span className="text-xs text-muted-foreground">
+								{peer.filesSent} sent • {peer.filesReceived} received
+							</span>
+						</div>
+					))}
+				</div>
+			</CardContent>
+		</Card>
+	);
+}
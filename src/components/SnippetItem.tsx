@@ -0,0 +1,96 @@
+import { Check, Copy, ExternalLink, TextQuote, Trash2 } from "lucide-react";
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+
+interface SnippetItemProps {
+	id: string;
+	text: string;
+	variant: "receiver" | "sender";
+	onRemoveSnippet?: (snippetId: string) => void;
+}
+
+// Only web links become buttons, so a snippet can't smuggle in a
+// javascript: URL
+const LINK_PATTERN = /https?:\/\/[^\s<>"']+/g;
+
+function findLinks(text: string) {
+	return [...new Set(text.match(LINK_PATTERN) ?? [])];
+}
+
+export function SnippetItem({
+	id,
+	text,
+	variant,
+	onRemoveSnippet,
+}: SnippetItemProps) {
+	const [copySuccess, setCopySuccess] = useState(false);
+	const links = variant === "receiver" ? findLinks(text) : [];
+
+	const handleCopy = async () => {
+		try {
+			await navigator.clipboard.writeText(text);
+			setCopySuccess(true);
+			setTimeout(() => setCopySuccess(false), 2000);
+		} catch (err) {
+			console.error("Failed to copy text:", err);
+		}
+	};
+
+	return (
+		<div className="flex items-start gap-3 p-3 border rounded-lg">
+			<TextQuote className="h-5 w-5 mt-0.5 flex-shrink-0 text-muted-foreground" />
+
+			<div className="flex-1 min-w-0 space-y-2">
+				<p className="text-sm font-mono whitespace-pre-wrap break-all max-h-32 overflow-y-auto">
+					{text}
+				</p>
+				{links.length > 0 && (
+					<div className="flex flex-wrap gap-1">
+						{links.map((link) => (
+							<Button
+								key={link}
+								variant="outline"
+								size="sm"
+								className="h-7 max-w-full px-2"
+								asChild
+							>
+								<a href={link} target="_blank" rel="noopener noreferrer">
+									<ExternalLink className="h-3 w-3 mr-1 flex-shrink-0" />
+									<span className="truncate">{link}</span>
+								</a>
+							</Button>
+						))}
+					</div>
+				)}
+			</div>
+
+			<div className="flex-shrink-0 flex items-center gap-1">
+				{variant === "receiver" ? (
+					<Button
+						variant="ghost"
+						size="sm"
+						onClick={handleCopy}
+						className="h-8 w-8 p-0"
+						title="Copy to clipboard"
+					>
+						{copySuccess ? (
+							<Check className="h-3 w-3 text-green-500" />
+						) : (
+							<Copy className="h-3 w-3" />
+						)}
+					</Button>
+				) : (
+					<Button
+						variant="ghost"
+						size="sm"
+						onClick={() => onRemoveSnippet?.(id)}
+						className="h-8 w-8 p-0 text-destructive hover:text-destructive"
+						title="Remove"
+					>
+						<Trash2 className="h-3 w-3" />
+					</Button>
+				)}
+			</div>
+		</div>
+	);
+}
@@ -0,0 +1,189 @@
+import {
+	ArrowUpToLine,
+	ListOrdered,
+	Loader2,
+	Pause,
+	Play,
+	X,
+} from "lucide-react";
+import { TransferStatsLine } from "@/components/TransferStatsLine";
+import { Button } from "@/components/ui/button";
+import {
+	Card,
+	CardContent,
+	CardDescription,
+	CardHeader,
+	CardTitle,
+} from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import type { ConnectedPeer } from "@/hooks/usePeer";
+import type { ScheduledTransfer, TransferLimits } from "@/lib/scheduler";
+
+interface TransferQueueProps {
+	transfers: ScheduledTransfer[];
+	connectedPeers: ConnectedPeer[];
+	limits: TransferLimits;
+	onPrioritize: (transferId: string) => void;
+	onPause: (transferId: string) => void;
+	onResume: (transferId: string) => void;
+	onCancel: (transferId: string) => void;
+	onLimitsChange: (limits: TransferLimits) => void;
+}
+
+export function TransferQueue({
+	transfers,
+	connectedPeers,
+	limits,
+	onPrioritize,
+	onPause,
+	onResume,
+	onCancel,
+	onLimitsChange,
+}: TransferQueueProps) {
+	const activeTransfers = transfers.filter((t) => t.state === "active");
+	const queuedTransfers = transfers
+		.filter((t) => t.state === "queued")
+		.sort((a, b) => b.priority - a.priority);
+	const pausedTransfers = transfers.filter((t) => t.state === "paused");
+
+	const getPeerName = (peerId: string) =>
+		connectedPeers.find((p) => p.id === peerId)?.name ?? "Sender";
+
+	const getUploadStats = (transfer: ScheduledTransfer) =>
+		connectedPeers
+			.find((p) => p.id === transfer.peerId)
+			?.uploads.find((u) => u.fileId === transfer.fileId)?.stats;
+
+	const handleLimitChange = (key: keyof TransferLimits, value: string) => {
+		const limit = Number.parseInt(value, 10);
+		if (Number.isInteger(limit) && limit > 0) {
+			onLimitsChange({ ...limits, [key]: limit });
+		}
+	};
+
+	return (
+		<Card>
+			<CardHeader>
+				<CardTitle className="flex items-center gap-2">
+					<ListOrdered className="h-5 w-5" />
+					Transfer Queue ({transfers.length})
+				</CardTitle>
+				<CardDescription>
+					Files being sent now, and the ones waiting for a free slot. Upload
+					bandwidth is split evenly between receivers.
+				</CardDescription>
+				<div className="flex flex-wrap gap-4 text-sm">
+					<label className="flex items-center gap-2">
+						Per receiver
+						<Input
+							type="number"
+							min={1}
+							value={limits.perPeer}
+							onChange={(e) => handleLimitChange("perPeer", e.target.value)}
+							className="h-8 w-16"
+						/>
+					</label>
+					<label className="flex items-center gap-2">
+						Total
+						<Input
+							type="number"
+							min={1}
+							value={limits.total}
+							onChange={(e) => handleLimitChange("total", e.target.value)}
+							className="h-8 w-16"
+						/>
+					</label>
+				</div>
+			</CardHeader>
+			<CardContent>
+				{transfers.length === 0 ? (
+					<p className="text-center py-4 text-sm text-muted-foreground">
+						No transfers in progress
+					</p>
+				) : (
+					<ScrollArea className="max-h-60 w-full">
+						<div className="space-y-2">
+							{[...activeTransfers, ...queuedTransfers, ...pausedTransfers].map(
+								(transfer) => {
+									const stats =
+										transfer.state === "active"
+											? getUploadStats(transfer)
+											: undefined;
+									return (
+										<div
+											key={transfer.id}
+											className="flex items-center justify-between gap-3 p-2 border rounded-lg"
+										>
+											<div className="min-w-0">
+												<p className="text-sm font-medium truncate">
+													{transfer.name}
+												</p>
+												<p className="text-xs text-muted-foreground">
+													To {getPeerName(transfer.peerId)}
+												</p>
+												{stats && <TransferStatsLine stats={stats} />}
+											</div>
+											<div className="flex items-center gap-1 flex-shrink-0">
+												{transfer.state === "active" && (
+													<>
+														<span className="flex items-center gap-1 text-xs text-muted-foreground mr-1">
+															<Loader2 className="h-3 w-3 animate-spin" />
+															Sending
+														</span>
+														<Button
+															variant="ghost"
+															size="sm"
+															onClick={() => onPause(transfer.id)}
+															className="h-8 w-8 p-0"
+															title="Pause"
+														>
+															<Pause className="h-3 w-3" />
+														</Button>
+													</>
+												)}
+												{transfer.state === "queued" && (
+													<Button
+														variant="ghost"
+														size="sm"
+														onClick={() => onPrioritize(transfer.id)}
+														className="h-8 px-2"
+														title="Send this file next"
+													>
+														<ArrowUpToLine className="h-3 w-3 mr-1" />
+														Queued
+													</Button>
+												)}
+												{transfer.state === "paused" && (
+													<Button
+														variant="ghost"
+														size="sm"
+														onClick={() => onResume(transfer.id)}
+														className="h-8 px-2"
+														title="Resume"
+													>
+														<Play className="h-3 w-3 mr-1" />
+														Paused
+													</Button>
+												)}
+												<Button
+													variant="ghost"
+													size="sm"
+													onClick={() => onCancel(transfer.id)}
+													className="h-8 w-8 p-0 text-destructive hover:text-destructive"
+													title="Cancel"
+												>
+													<X className="h-3 w-3" />
+												</Button>
+											</div>
+										</div>
+									);
+								},
+							)}
+						</div>
+					</ScrollArea>
+				)}
+			</CardContent>
+		</Card>
+	);
+}
@@ -0,0 +1,24 @@
+import {
+	formatBytes,
+	formatDuration,
+	formatSpeed,
+	getElapsedSeconds,
+	type TransferStats,
+} from "@/lib/stats";
+
+interface TransferStatsLineProps {
+	stats: TransferStats;
+}
+
+export function TransferStatsLine({ stats }: TransferStatsLineProps) {
+	const parts = [
+		`${formatBytes(stats.bytesTransferred)} of ${formatBytes(stats.totalBytes)}`,
+		formatSpeed(stats.bytesPerSecond),
+		stats.etaSeconds !== null
+			? `${formatDuration(stats.etaSeconds)} left`
+			: "Estimating...",
+		`${formatDuration(getElapsedSeconds(stats, stats.sampledAt))} elapsed`,
+	];
+
+	return <p className="text-xs text-muted-foreground">{parts.join(" • ")}</p>;
+}
@@ -0,0 +1,84 @@
+import { Upload } from "lucide-react";
+import { useDropzone } from "react-dropzone";
+import { FileItem } from "@/components/FileItem";
+import {
+	Card,
+	CardContent,
+	CardDescription,
+	CardHeader,
+	CardTitle,
+} from "@/components/ui/card";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import type { SharedFile } from "@/hooks/usePeer";
+
+interface UploadCardProps {
+	offeredFiles: SharedFile[];
+	isUploadRequest: boolean;
+	onFilesSelected: (files: File[]) => void;
+	onRemoveFile: (fileId: string) => void;
+}
+
+export function UploadCard({
+	offeredFiles,
+	isUploadRequest,
+	onFilesSelected,
+	onRemoveFile,
+}: UploadCardProps) {
+	const { getRootProps, getInputProps, isDragActive } = useDropzone({
+		onDrop: onFilesSelected,
+	});
+
+	return (
+		<Card>
+			<CardHeader>
+				<CardTitle className="flex items-center gap-2">
+					<Upload className="h-5 w-5" />
+					Send Files
+				</CardTitle>
+				<CardDescription>
+					{isUploadRequest
+						? "The sender is asking you to send files. Drop them here and they can download them."
+						: "Offer files to the sender. They choose which ones to download."}
+				</CardDescription>
+			</CardHeader>
+			<CardContent className="space-y-4">
+				<div
+					{...getRootProps()}
+					className={`p-6 border-2 border-dashed rounded-lg text-center cursor-pointer transition-colors ${
+						isDragActive
+							? "border-primary bg-primary/10"
+							: "border-border hover:border-primary/50"
+					}`}
+				>
+					<input {...getInputProps()} />
+					<Upload className="mx-auto h-8 w-8 text-muted-foreground mb-2" />
+					<p className="text-sm text-muted-foreground">
+						{isDragActive
+							? "Drop the files now!"
+							: "Drag files here or click to select"}
+					</p>
+				</div>
+
+				{offeredFiles.length > 0 && (
+					<div>
+						<h4 className="font-medium mb-2">Offered Files</h4>
+						<ScrollArea className="h-40 w-full">
+							<div className="space-y-2">
+								{offeredFiles.map((offeredFile) => (
+									<FileItem
+										key={offeredFile.id}
+										id={offeredFile.id}
+										name={offeredFile.file.name}
+										size={offeredFile.file.size}
+										variant="sender"
+										onRemoveFile={onRemoveFile}
+									/>
+								))}
+							</div>
+						</ScrollArea>
+					</div>
+				)}
+			</CardContent>
+		</Card>
+	);
+}
@@ -5,98 +5,645 @@ import {
 	animals,
 	uniqueNamesGenerator,
 } from "unique-names-generator";
+import { decodeMessage, encodeMessage } from "@/lib/codec";
 import {
+	acceptNonceCounter,
 	arrayBufferToBase64,
 	base64ToArrayBuffer,
-	decryptData,
-	deriveSharedKey,
-	type EncryptedData,
-	encryptData,
+	createHasher,
+	createNonceCounters,
+	deriveSafetyWords,
+	deriveSessionKeys,
+	digestToHex,
 	exportPublicKey,
+	finishPake,
 	generateChallenge,
+	generateHandshakeNonce,
 	generateKeyPair,
+	generateSessionToken,
 	generateSigningKeyPair,
+	getCounterNonce,
+	getIdentityFingerprint,
+	getKeyConfirmation,
+	getKeyFingerprint,
+	getPakeConfirmation,
+	type HandshakeRole,
+	type HandshakeTranscript,
+	type Hasher,
+	hashFile,
 	importPublicKey,
+	type NonceCounters,
+	openEnvelope,
+	type PublicKeySet,
+	readCounterNonce,
+	type SessionKeys,
+	sealEnvelope,
 	signChallenge,
+	startPake,
 	verifyChallenge,
+	verifyKeyConfirmation,
+	verifyPakeConfirmation,
 } from "@/lib/crypto";
+import {
+	createDiagnosticsLog,
+	type DiagnosticsSnapshot,
+	getConnectionStats,
+	traceConnection,
+	traceMessage,
+} from "@/lib/diagnostics";
+import {
+	createDirectoryFileSink,
+	createFileSink,
+	type FileSink,
+	pickDirectory,
+} from "@/lib/fileSink";
+import {
+	getPathSegments,
+	getRelativePath,
+	getSafeFileName,
+} from "@/lib/fileTree";
+import {
+	checkDeviceTrust,
+	type DeviceInfo,
+	type DeviceTrust,
+	pinDevice,
+	toDeviceInfo,
+} from "@/lib/identity";
+import {
+	getReconnectDelay,
+	MAX_RECONNECT_ATTEMPTS,
+	RECONNECT_ATTEMPT_TIMEOUT,
+} from "@/lib/reconnect";
+import {
+	createTransferScheduler,
+	type ScheduledTransfer,
+} from "@/lib/scheduler";
+import { toPeerOptions } from "@/lib/servers";
+import {
+	addCompletedTransfer,
+	createTransferStats,
+	EMPTY_SESSION_SUMMARY,
+	getElapsedSeconds,
+	type SessionSummary,
+	type TransferStats,
+	updateTransferStats,
+} from "@/lib/stats";
+import {
+	CHUNK_SIZE,
+	type ChunkRange,
+	getChunkIndices,
+	getMissingRanges,
+	MAX_PENDING_WRITES,
+	PROGRESS_ACK_INTERVAL,
+	waitForBufferDrain,
+} from "@/lib/transfer";
+import { createZipWriter, getZipSize, type ZipEntryInfo } from "@/lib/zip";
 import { type PeerKeys, usePeerStore } from "@/store/peerStore";
 
+// A file as advertised to the other side of a connection
+export interface FileManifestEntry {
+	id: string;
+	name: string;
+	size: number;
+	path?: string; // Relative path, e.g. "project/src/index.ts", for folder files
+}
+
+// A piece of text shared alongside the files, such as a link or a command
+export interface TextSnippet {
+	id: string;
+	text: string;
+}
+
+export type ChatDeliveryStatus = "sending" | "delivered" | "failed";
+
+// A chat message, either ours or one we received
+export interface ChatMessage {
+	id: string;
+	peerId?: string; // Who wrote it, or who we wrote to; unset for broadcasts
+	author: string;
+	text: string;
+	sentAt: number;
+	isOwn: boolean;
+	delivery: Record<string, ChatDeliveryStatus>; // Per recipient, ours only
+}
+
+// What a chat message carries, sealed like every other message
+interface ChatPayload {
+	name: string;
+	text: string;
+	sentAt: number;
+}
+
+// How far a receiver has got with a file we're sending it, as acknowledged
+// by the receiver
+export interface UploadProgress {
+	fileId: string;
+	name: string;
+	stats: TransferStats;
+}
+
 // Represents a connected peer (receiver)
 export interface ConnectedPeer {
 	id: string;
 	name: string;
 	connection: DataConnection;
 	isVerified: boolean;
-	sharedKey?: Uint8Array;
+	isApproved: boolean; // Allowed to see the shared files
+	sessionKeys?: SessionKeys;
+	safetyWords?: string[];
+	isConfirmed: boolean; // Safety words compared and confirmed by the user
+	device?: DeviceTrust; // Long-term identity, if the receiver has one
+	offeredFiles: FileManifestEntry[]; // Files the receiver offers to upload
+	uploads: UploadProgress[]; // Files the receiver is downloading from us
+	completedDownloads: number;
 }
 
 // Represents a file staged for sharing
 export interface SharedFile {
 	file: File;
 	id: string;
+	digest: Promise<string | undefined>; // SHA-256 hex, computed in the background
+}
+
+// Result of comparing a received file against the sender's digest
+export type IntegrityStatus = "verified" | "failed";
+
+// Connection states shown to the receiver
+export type ConnectionStatus =
+	| "connecting"
+	| "verifying"
+	| "awaiting-pin"
+	| "awaiting-approval"
+	| "device-changed" // The sender's device presented a different key
+	| "connected"
+	| "rejected"
+	| "error"
+	| "reconnecting" // Lost the sender, trying again with backoff
+	| "disconnected";
+
+// A file being received, written to its sink in chunk order
+interface IncomingDownload {
+	peerId: string; // The peer serving the file
+	sink: FileSink;
+	totalChunks?: number; // Unknown until FILE_METADATA arrives
+	nextChunkIndex: number;
+	pendingChunks: Map<number, ArrayBuffer>; // Arrived ahead of nextChunkIndex
+	receivedChunks: Set<number>;
+	writeQueue: Promise<void>;
+	pendingWrites: number; // Chunks in writeQueue not written yet
+	isThrottled: boolean; // We paused the sender until the writes catch up
+	hasher: Hasher; // Fed in write order, so it survives resumption
+	expectedDigest?: string | null; // Once FILE_DIGEST arrives, null if the sender has none
+	isPaused: boolean;
+	stats: TransferStats;
+}
+
+// Sender side: a receiver that was let in, which can come back after a
+// dropped connection without the PIN, approval or safety word check again
+interface ResumableSession {
+	peerId: string;
+	fingerprint: string; // Of the keys the receiver verified with
+	isConfirmed: boolean;
 }
 
 // Message types for peer communication
 export type PeerMessage =
-	| { type: "HELLO"; name: string }
-	| { type: "KEY_EXCHANGE"; dhPublicKey: string; signingPublicKey: string }
+	// Receivers coming back after a dropped connection skip the PIN, until
+	// their introduction shows whether their token is valid
+	| { type: "HELLO"; nonce: string; isResuming?: boolean }
+	| {
+			type: "KEY_EXCHANGE";
+			dhPublicKey: string;
+			signingPublicKey: string;
+			nonce: string; // The sender's half of the handshake nonces
+			pake?: string; // Present when the share is PIN protected
+	  }
 	| {
 			type: "KEY_EXCHANGE_RESPONSE";
 			dhPublicKey: string;
 			signingPublicKey: string;
+			pake?: string;
+			pakeConfirmation?: string;
+			keyConfirmation?: string; // Proves we derived the same session keys
+	  }
+	// Sent sealed once the peer proved holding the session keys, so names
+	// and tokens never travel in the clear. Receivers send theirs in reply.
+	| {
+			type: "INTRODUCTION";
+			name?: string; // The receiver's display name
+			device?: DeviceInfo; // Present when the peer has an identity
+			resumeToken?: string; // Present when the receiver is resuming
 	  }
+	| { type: "PIN_RETRY"; pake: string; attemptsLeft: number }
+	| { type: "PIN_ACCEPTED"; confirmation: string }
+	| { type: "KEY_CONFIRMATION"; confirmation: string }
 	| { type: "CHALLENGE"; challenge: string }
 	| { type: "CHALLENGE_RESPONSE"; signature: string }
 	| { type: "VERIFICATION_COMPLETE" }
+	| { type: "APPROVAL_PENDING" }
+	| { type: "SESSION_TOKEN"; token: string }
+	| { type: "REJECTED"; reason: string }
 	| { type: "DISCONNECTED" }
-	| {
-			type: "FILES_UPDATE";
-			files: Array<{ id: string; name: string; size: number }>;
-	  }
-	| { type: "REQUEST_FILE"; fileId: string }
+	| { type: "FILES_UPDATE"; files: FileManifestEntry[] }
+	| { type: "UPLOAD_OFFER"; files: FileManifestEntry[] }
+	| { type: "REQUEST_FILE"; fileId: string; ranges?: ChunkRange[] }
+	// Text snippets are sealed like every other message
+	| { type: "TEXT_SNIPPET"; id: string; text: string }
+	| { type: "REMOVE_SNIPPET"; id: string }
+	// Chat messages are acknowledged by the recipient
+	| { type: "CHAT_MESSAGE"; id: string; payload: ChatPayload }
+	| { type: "CHAT_DELIVERED"; id: string }
+	// Either side can stop a transfer. Pausing keeps the receiver's partial
+	// file, cancelling discards it.
+	| { type: "PAUSE_TRANSFER"; fileId: string }
+	| { type: "RESUME_TRANSFER"; fileId: string } // Asks for the rest again
+	| { type: "CANCEL_TRANSFER"; fileId: string }
+	// Sent by the downloading side so the sender can show its progress
+	| { type: "TRANSFER_PROGRESS"; fileId: string; receivedChunks: number }
+	| { type: "TRANSFER_COMPLETE"; fileId: string; isIntact: boolean }
 	| {
 			type: "FILE_METADATA";
 			fileId: string;
 			name: string;
 			size: string;
 			totalChunks: number;
-			encrypted: boolean;
 	  }
+	// Follows the chunks, since hashing a large file can take a while
+	| { type: "FILE_DIGEST"; fileId: string; sha256?: string }
+	// Sealed like every other message. Where the chunk belongs is checked
+	// against the file that was requested.
 	| {
 			type: "FILE_CHUNK";
 			fileId: string;
 			chunkIndex: number;
 			data: ArrayBuffer;
 			isLast: boolean;
-			encrypted: boolean;
-			iv?: string;
+			totalSize: number; // Of the whole file, in bytes
 	  };
 
-const CHUNK_SIZE = 64 * 1024; // 64KB chunks
+// A PeerMessage sealed with the session keys. After the handshake it's the
+// only frame either side sends.
+interface SealedFrame {
+	type: "SEALED";
+	nonce: string;
+	data: ArrayBuffer;
+}
+
+// The only messages sent in the clear: they set up the session keys, or turn
+// a peer away before there are any
+const HANDSHAKE_MESSAGE_TYPES = new Set<PeerMessage["type"]>([
+	"HELLO",
+	"KEY_EXCHANGE",
+	"KEY_EXCHANGE_RESPONSE",
+	"PIN_RETRY",
+	"PIN_ACCEPTED",
+	"KEY_CONFIRMATION",
+	"CHALLENGE",
+	"CHALLENGE_RESPONSE",
+	"REJECTED",
+]);
+
+// Failed PIN attempts before a receiver is locked out
+const MAX_PIN_ATTEMPTS = 5;
+
+// Failed PIN attempts across all receivers before the PIN is locked. Peer IDs
+// are picked by the client, so the limit per receiver alone doesn't stop a
+// brute force.
+export const MAX_PIN_FAILURES = 10;
+
+const PIN_LOCKED_REASON =
+	"The PIN was locked after too many incorrect attempts. Ask the sender for a new one.";
+
+const DEFAULT_REJECTION_REASON = "The sender declined your request to connect.";
+
+// Stage files for sharing, hashing each one in the background
+function toSharedFiles(files: File[]): SharedFile[] {
+	return files.map((file) => ({
+		file,
+		id: crypto.randomUUID(),
+		digest: hashFile(file).catch((error) => {
+			console.error("Failed to hash file:", error);
+			return undefined;
+		}),
+	}));
+}
+
+// Random readable name, e.g. "Brave-Otter"
+function generateName(): string {
+	return uniqueNamesGenerator({
+		dictionaries: [adjectives, animals],
+		separator: "-",
+		style: "capital",
+	});
+}
+
+// Build the file list sent to the other side
+function toFileManifest(files: SharedFile[]): FileManifestEntry[] {
+	return files.map((sf) => ({
+		id: sf.id,
+		name: sf.file.name,
+		size: sf.file.size,
+		path: getRelativePath(sf.file),
+	}));
+}
+
+// Ask for the chunks of a partial download that haven't arrived yet
+function requestRemainingChunks(
+	conn: DataConnection,
+	fileId: string,
+	download: IncomingDownload,
+) {
+	sendMessage(conn, {
+		type: "REQUEST_FILE",
+		fileId,
+		// Without metadata we don't know the chunk count yet
+		ranges:
+			download.totalChunks !== undefined
+				? getMissingRanges(download.receivedChunks, download.totalChunks)
+				: undefined,
+	});
+}
+
+// Both sides' handshake nonces per connection. Our key pairs last for the
+// whole page load, so these are what keeps a reconnect from deriving the same
+// session keys and starting their nonce counters over.
+const handshakeNoncesByConnection = new WeakMap<
+	DataConnection,
+	Partial<Pick<HandshakeTranscript, "senderNonce" | "receiverNonce">>
+>();
+
+function setHandshakeNonce(
+	conn: DataConnection,
+	role: HandshakeRole,
+	nonce: Uint8Array,
+) {
+	handshakeNoncesByConnection.set(conn, {
+		...handshakeNoncesByConnection.get(conn),
+		[role === "sender" ? "senderNonce" : "receiverNonce"]: nonce,
+	});
+}
+
+// Derive our session keys with a peer, bound to both peer IDs, every key
+// exchanged so far and the nonces of this connection
+function deriveConnectionKeys(
+	conn: DataConnection,
+	role: HandshakeRole,
+	peerKeys: PublicKeySet,
+	pakeKey?: Uint8Array,
+): SessionKeys | undefined {
+	const { dhKeyPair, signingKeyPair } = usePeerStore.getState();
+	const { senderNonce, receiverNonce } =
+		handshakeNoncesByConnection.get(conn) ?? {};
+	if (!dhKeyPair || !signingKeyPair || !senderNonce || !receiverNonce) {
+		return undefined;
+	}
+
+	const ourKeys: PublicKeySet = {
+		dhPublicKey: dhKeyPair.publicKey,
+		signingPublicKey: signingKeyPair.publicKey,
+	};
+	const transcript: HandshakeTranscript =
+		role === "sender"
+			? {
+					senderId: conn.provider.id,
+					receiverId: conn.peer,
+					senderKeys: ourKeys,
+					receiverKeys: peerKeys,
+					senderNonce,
+					receiverNonce,
+				}
+			: {
+					senderId: conn.peer,
+					receiverId: conn.provider.id,
+					senderKeys: peerKeys,
+					receiverKeys: ourKeys,
+					senderNonce,
+					receiverNonce,
+				};
+	return deriveSessionKeys(
+		dhKeyPair.privateKey,
+		peerKeys.dhPublicKey,
+		transcript,
+		role,
+		pakeKey,
+	);
+}
+
+// Nonce counters per set of session keys, used by sealed messages. They
+// start over whenever fresh keys are derived.
+const nonceCountersByKeys = new WeakMap<SessionKeys, NonceCounters>();
+
+function getNonceCounters(keys: SessionKeys): NonceCounters {
+	let counters = nonceCountersByKeys.get(keys);
+	if (!counters) {
+		counters = createNonceCounters();
+		nonceCountersByKeys.set(keys, counters);
+	}
+	return counters;
+}
+
+// Send a message to a peer, sealed with our session keys unless it's part of
+// the handshake. Nothing else is sent before we share keys. Returns whether
+// the message went out.
+function sendMessage(conn: DataConnection, message: PeerMessage): boolean {
+	if (!conn.open) {
+		console.warn("Connection closed, not sending:", message.type);
+		return false;
+	}
+
+	if (HANDSHAKE_MESSAGE_TYPES.has(message.type)) {
+		traceMessage(conn, "sent", message.type);
+		conn.send(message);
+		return true;
+	}
+
+	const sessionKeys = usePeerStore.getState().peerKeys[conn.peer]?.sessionKeys;
+	if (!sessionKeys) {
+		console.warn("No session keys yet, not sending:", message.type);
+		return false;
+	}
+
+	const nonce = getCounterNonce(getNonceCounters(sessionKeys).sent++);
+	const frame: SealedFrame = {
+		type: "SEALED",
+		nonce: arrayBufferToBase64(nonce.buffer),
+		data: sealEnvelope(encodeMessage(message), sessionKeys.sendKey, nonce)
+			.buffer,
+	};
+	traceMessage(conn, "sent", message.type);
+	conn.send(frame);
+	return true;
+}
+
+// Turn a frame from a peer back into a message. Returns null for sealed
+// frames that don't authenticate or are replayed, and for anything but the
+// handshake sent in the clear.
+function openFrame(
+	conn: DataConnection,
+	frame: PeerMessage | SealedFrame,
+): PeerMessage | null {
+	if (frame.type !== "SEALED") {
+		if (!HANDSHAKE_MESSAGE_TYPES.has(frame.type)) return null;
+		traceMessage(conn, "received", frame.type);
+		return frame;
+	}
+
+	const sessionKeys = usePeerStore.getState().peerKeys[conn.peer]?.sessionKeys;
+	if (!sessionKeys) return null;
+
+	try {
+		const nonce = new Uint8Array(base64ToArrayBuffer(frame.nonce));
+		const counter = readCounterNonce(nonce);
+		if (counter === null) return null;
+
+		const plaintext = openEnvelope(
+			new Uint8Array(frame.data),
+			sessionKeys.receiveKey,
+			nonce,
+		);
+		if (!acceptNonceCounter(getNonceCounters(sessionKeys), counter)) {
+			return null;
+		}
+		const message = decodeMessage(plaintext) as PeerMessage;
+		traceMessage(conn, "received", message.type);
+		return message;
+	} catch {
+		return null;
+	}
+}
+
+// Whether a file chunk from a peer is the one at its index of the file we
+// asked for, by what we expect rather than what the chunk claims
+function isExpectedChunk(
+	message: Extract<PeerMessage, { type: "FILE_CHUNK" }>,
+	totalSize: number,
+): boolean {
+	const { chunkIndex, data } = message;
+	const totalChunks = Math.ceil(totalSize / CHUNK_SIZE);
+	return (
+		Number.isInteger(chunkIndex) &&
+		chunkIndex >= 0 &&
+		chunkIndex < totalChunks &&
+		message.isLast === (chunkIndex === totalChunks - 1) &&
+		message.totalSize === totalSize &&
+		data instanceof ArrayBuffer &&
+		data.byteLength ===
+			Math.min(CHUNK_SIZE, totalSize - chunkIndex * CHUNK_SIZE)
+	);
+}
+
+// Update how far one of our chat messages got with a recipient
+function setDeliveryStatus(
+	messages: ChatMessage[],
+	messageId: string,
+	peerId: string,
+	status: ChatDeliveryStatus,
+): ChatMessage[] {
+	return messages.map((message) =>
+		message.id === messageId && message.delivery[peerId]
+			? { ...message, delivery: { ...message.delivery, [peerId]: status } }
+			: message,
+	);
+}
+
+// Messages still on their way to a peer that left won't arrive
+function markUndelivered(
+	messages: ChatMessage[],
+	peerId: string,
+): ChatMessage[] {
+	return messages.map((message) =>
+		message.delivery[peerId] === "sending"
+			? { ...message, delivery: { ...message.delivery, [peerId]: "failed" } }
+			: message,
+	);
+}
+
+// Only verified and approved receivers may see or download shared files
+function canAccessFiles(peer: ConnectedPeer) {
+	return peer.isVerified && peer.isApproved;
+}
 
 export function usePeer() {
 	const [peerId, setPeerId] = useState<string | null>(null);
 	const [sharedFiles, setSharedFiles] = useState<SharedFile[]>([]);
 	const [connectedPeers, setConnectedPeers] = useState<ConnectedPeer[]>([]);
-	const [receivedFiles, setReceivedFiles] = useState<
-		Array<{ id: string; name: string; size: number }>
-	>([]);
+	const [receivedFiles, setReceivedFiles] = useState<FileManifestEntry[]>([]);
+	const [snippets, setSnippets] = useState<TextSnippet[]>([]);
+	const [receivedSnippets, setReceivedSnippets] = useState<TextSnippet[]>([]);
+	const [chatMessages, setChatMessages] = useState<ChatMessage[]>([]);
+	// Receiver side: files we offer to upload to the sender
+	const [offeredFiles, setOfferedFiles] = useState<SharedFile[]>([]);
 	const [downloadProgress, setDownloadProgress] = useState<
 		Record<string, number>
 	>({});
+	const [integrityStatus, setIntegrityStatus] = useState<
+		Record<string, IntegrityStatus>
+	>({});
+	const [pausedDownloads, setPausedDownloads] = useState<
+		Record<string, boolean>
+	>({});
+	const [downloadStats, setDownloadStats] = useState<
+		Record<string, TransferStats>
+	>({});
+	const [sessionSummary, setSessionSummary] = useState<SessionSummary>(
+		EMPTY_SESSION_SUMMARY,
+	);
 	const [isConnected, setIsConnected] = useState<boolean>(false);
-	const [connectionStatus, setConnectionStatus] = useState<
-		"connecting" | "verifying" | "connected" | "error" | "disconnected"
-	>("connecting");
+	const [connectionError, setConnectionError] = useState<string | null>(null);
+	const [pinAttemptsLeft, setPinAttemptsLeft] = useState<number | null>(null);
+	const [safetyWords, setSafetyWords] = useState<string[] | null>(null);
+	const [isSenderConfirmed, setIsSenderConfirmed] = useState<boolean>(false);
+	// Receiver side: the sender's long-term identity, if it has one
+	const [senderDevice, setSenderDevice] = useState<DeviceTrust | null>(null);
+	const [connectionStatus, setConnectionStatus] =
+		useState<ConnectionStatus>("connecting");
+	const [reconnectAttempt, setReconnectAttempt] = useState(0);
+	// Outgoing transfers, running or waiting for a free slot
+	const [transferQueue, setTransferQueue] = useState<ScheduledTransfer[]>([]);
+	const [scheduler] = useState(() => createTransferScheduler(setTransferQueue));
+	// Message types, errors and state changes, for the diagnostics panel
+	const [diagnosticsLog] = useState(() => createDiagnosticsLog());
 
 	const peerRef = useRef<Peer | null>(null);
-	const downloadBuffersRef = useRef<
-		Record<
-			string,
-			{ chunks: ArrayBuffer[]; metadata: { name: string; size: number } }
-		>
-	>({});
+	// Partial downloads survive a dropped connection so they can be resumed
+	const downloadBuffersRef = useRef<Record<string, IncomingDownload>>({});
+	// Sender side: stats per receiver and file, as acknowledged by receivers
+	const uploadStatsRef = useRef<Record<string, TransferStats>>({});
+	// Names peers introduced themselves with, kept for the session summary
+	const peerNamesRef = useRef<Record<string, string>>({});
+	// Receiver side: the name we introduced ourselves to the sender with
+	const receiverNameRef = useRef<string | null>(null);
+	// Receiver side: the sender we connect to, and the token to resume the
+	// session with once it has let us in
+	const senderLinkRef = useRef<{
+		senderId: string;
+		fingerprint?: string;
+		resumeToken?: string;
+	} | null>(null);
+	// Sender side: sessions by token, receivers presenting a valid token
+	// while they verify, and receivers that said they're resuming and skip
+	// the PIN until they present one
+	const resumableSessionsRef = useRef<Record<string, ResumableSession>>({});
+	const resumingPeersRef = useRef<Record<string, string>>({});
+	const resumeClaimsRef = useRef(new Set<string>());
+	// Identities peers claimed in their introduction, checked once they prove
+	// holding the key
+	const advertisedDevicesRef = useRef<Record<string, DeviceInfo | undefined>>(
+		{},
+	);
+	// Fingerprint from the share link, checked against the sender's keys
+	const expectedFingerprintRef = useRef<string | null>(null);
+	// Receiver side: both halves of the mutual challenge-response, the
+	// sender's proof that it derived the same session keys, plus its proof
+	// that it knows the PIN when the share is protected and the user's trust
+	// when its device key changed
+	const receiverVerificationRef = useRef({
+		isAccepted: false,
+		isSenderVerified: false,
+		isKeyConfirmed: false,
+		isPinVerified: true,
+		isDeviceTrusted: true,
+	});
 
 	// Crypto and state management from Zustand
 	const {
@@ -104,68 +651,564 @@ export function usePeer() {
 		setIsSender,
 		setCryptoKeys,
 		addPeerKeys,
-		updatePeerSharedKey,
+		updatePeerSessionKeys,
 		addChallenge,
 		removeChallenge,
+		updatePakeSession,
+		removePakeSession,
+		recordFailedPinAttempt,
+		pinFailures,
+		isPinLocked,
+		lockSharePin,
 		setSenderConnection,
+		requireApproval,
+		setRequireApproval,
+		sharePin,
+		setSharePin,
+		transferLimits,
+		setTransferLimits,
+		serverConfig,
+		setServerConfig,
+		identity,
+		setIdentity,
+		knownDevices,
+		rememberDevices,
+		forgetDevice,
+		restoreIdentity,
 	} = usePeerStore();
 
-	const sendFileToReceiver = useCallback(
-		async (sharedFile: SharedFile, conn: DataConnection) => {
+	useEffect(() => {
+		scheduler.setLimits(transferLimits);
+	}, [scheduler, transferLimits]);
+
+	// Fingerprint of our own keys, embedded in the share link
+	const keyFingerprint = usePeerStore((state) =>
+		state.dhKeyPair && state.signingKeyPair
+			? getKeyFingerprint({
+					dhPublicKey: state.dhKeyPair.publicKey,
+					signingPublicKey: state.signingKeyPair.publicKey,
+				})
+			: null,
+	);
+
+	// Sender side: store a receiver's stats for a file and show them in its
+	// list of uploads
+	const setUploadStats = useCallback(
+		(peerId: string, sharedFile: SharedFile, stats: TransferStats) => {
+			const { id: fileId, file } = sharedFile;
+			uploadStatsRef.current[`${peerId}:${fileId}`] = stats;
+
+			const upload: UploadProgress = { fileId, name: file.name, stats };
+			setConnectedPeers((currentPeers) =>
+				currentPeers.map((peer) => {
+					if (peer.id !== peerId) return peer;
+					const isListed = peer.uploads.some((u) => u.fileId === fileId);
+					return {
+						...peer,
+						uploads: isListed
+							? peer.uploads.map((u) => (u.fileId === fileId ? upload : u))
+							: [...peer.uploads, upload],
+					};
+				}),
+			);
+		},
+		[],
+	);
+
+	// Sender side: list a file in the receiver's uploads as soon as we start
+	// sending it. Resumed transfers keep their existing stats.
+	const beginUpload = useCallback(
+		(peerId: string, sharedFile: SharedFile) => {
+			if (uploadStatsRef.current[`${peerId}:${sharedFile.id}`]) return;
+			setUploadStats(
+				peerId,
+				sharedFile,
+				createTransferStats(sharedFile.file.size),
+			);
+		},
+		[setUploadStats],
+	);
+
+	// Sender side: update a receiver's progress on a file from its ack
+	const recordUploadProgress = useCallback(
+		(peerId: string, sharedFile: SharedFile, receivedChunks: number) => {
+			const { file } = sharedFile;
+			const bytes = Math.min(receivedChunks * CHUNK_SIZE, file.size);
+			const stats =
+				uploadStatsRef.current[`${peerId}:${sharedFile.id}`] ??
+				createTransferStats(file.size);
+			setUploadStats(peerId, sharedFile, updateTransferStats(stats, bytes));
+		},
+		[setUploadStats],
+	);
+
+	// Sender side: a receiver finished or stopped downloading a file
+	const finishUploadProgress = useCallback(
+		(peerId: string, fileId: string, isCompleted: boolean) => {
+			const key = `${peerId}:${fileId}`;
+			const stats = uploadStatsRef.current[key];
+			delete uploadStatsRef.current[key];
+
+			if (isCompleted && stats) {
+				setSessionSummary((prev) =>
+					addCompletedTransfer(prev, {
+						direction: "sent",
+						peerId,
+						peerName: peerNamesRef.current[peerId] ?? "Sender",
+						bytes: stats.totalBytes,
+						seconds: getElapsedSeconds(stats),
+					}),
+				);
+			}
+			setConnectedPeers((currentPeers) =>
+				currentPeers.map((peer) =>
+					peer.id === peerId
+						? {
+								...peer,
+								uploads: peer.uploads.filter((u) => u.fileId !== fileId),
+								completedDownloads:
+									peer.completedDownloads + (isCompleted ? 1 : 0),
+							}
+						: peer,
+				),
+			);
+		},
+		[],
+	);
+
+	const sendFile = useCallback(
+		async (
+			sharedFile: SharedFile,
+			conn: DataConnection,
+			ranges?: ChunkRange[],
+			signal?: AbortSignal,
+		) => {
+			// The peer may have left while this transfer was queued
+			if (!conn.open || signal?.aborted) return;
+
 			const { file, id } = sharedFile;
 			const totalChunks = Math.ceil(file.size / CHUNK_SIZE);
-			const peerKeys = usePeerStore.getState().peerKeys[conn.peer];
-			const useEncryption = peerKeys?.sharedKey !== undefined;
 
 			// Send metadata first
-			conn.send({
+			sendMessage(conn, {
 				type: "FILE_METADATA",
 				fileId: id,
 				name: file.name,
 				size: file.size.toString(),
 				totalChunks,
-				encrypted: useEncryption,
 			});
 
-			// Send file in chunks
-			for (let i = 0; i < totalChunks; i++) {
-				const start = i * CHUNK_SIZE;
-				const end = Math.min(start + CHUNK_SIZE, file.size);
-				const chunk = file.slice(start, end);
-				let arrayBuffer = await chunk.arrayBuffer();
-				let iv: string | undefined;
+			// Send file in chunks, or only the requested ranges when resuming
+			for (const i of getChunkIndices(totalChunks, ranges)) {
+				// Pause while the data channel is congested
+				await waitForBufferDrain(conn);
+				if (!conn.open || signal?.aborted) break;
+
+				// Take turns with other receivers so they share the upload fairly
+				await scheduler.runTurn(conn.peer, async () => {
+					if (!conn.open || signal?.aborted) return;
+
+					const start = i * CHUNK_SIZE;
+					const end = Math.min(start + CHUNK_SIZE, file.size);
+					const chunk = file.slice(start, end);
+
+					sendMessage(conn, {
+						type: "FILE_CHUNK",
+						fileId: id,
+						chunkIndex: i,
+						data: await chunk.arrayBuffer(),
+						isLast: i === totalChunks - 1,
+						totalSize: file.size,
+					});
+				});
+			}
 
-				// Encrypt chunk if we have a shared key
-				if (useEncryption && peerKeys?.sharedKey) {
-					try {
-						const encryptedData = await encryptData(
-							arrayBuffer,
-							peerKeys.sharedKey,
-						);
-						arrayBuffer = encryptedData.data;
-						iv = arrayBufferToBase64(encryptedData.iv);
-					} catch (error) {
-						console.error("Failed to encrypt chunk:", error);
-						// Fall back to unencrypted
-						if (useEncryption) {
-							console.warn("Falling back to unencrypted transmission");
-						}
+			// Send the digest once hashing is done, without holding up the chunks
+			// or the scheduler slot
+			if (conn.open && !signal?.aborted) {
+				sharedFile.digest.then((sha256) => {
+					if (conn.open) {
+						sendMessage(conn, { type: "FILE_DIGEST", fileId: id, sha256 });
 					}
-				}
+				});
+			}
+		},
+		[scheduler],
+	);
+
+	// Queue a file for sending, it starts once the scheduler has a free slot
+	const queueFile = useCallback(
+		(sharedFile: SharedFile, conn: DataConnection, ranges?: ChunkRange[]) => {
+			scheduler.enqueue(
+				{
+					peerId: conn.peer,
+					fileId: sharedFile.id,
+					name: sharedFile.file.name,
+					size: sharedFile.file.size,
+				},
+				(signal) => {
+					beginUpload(conn.peer, sharedFile);
+					return sendFile(sharedFile, conn, ranges, signal);
+				},
+			);
+		},
+		[scheduler, sendFile, beginUpload],
+	);
+
+	// Receiver side: send our keys to the sender. We challenge it in turn once
+	// it has introduced itself.
+	const sendKeyExchangeResponse = useCallback(
+		(
+			conn: DataConnection,
+			pake?: { share: Uint8Array; confirmation: Uint8Array },
+		) => {
+			const { dhKeyPair, signingKeyPair, peerKeys } = usePeerStore.getState();
+			if (!dhKeyPair || !signingKeyPair) return;
+
+			// Prove we derived the same session keys the sender will
+			const sessionKeys = peerKeys[conn.peer]?.sessionKeys;
+
+			const dhPublicKeyBuffer = exportPublicKey(dhKeyPair.publicKey);
+			const signingPublicKeyBuffer = exportPublicKey(signingKeyPair.publicKey);
+
+			sendMessage(conn, {
+				type: "KEY_EXCHANGE_RESPONSE",
+				dhPublicKey: arrayBufferToBase64(dhPublicKeyBuffer),
+				signingPublicKey: arrayBufferToBase64(signingPublicKeyBuffer),
+				pake: pake && arrayBufferToBase64(pake.share.buffer),
+				pakeConfirmation: pake && arrayBufferToBase64(pake.confirmation.buffer),
+				keyConfirmation:
+					sessionKeys &&
+					arrayBufferToBase64(
+						getKeyConfirmation(sessionKeys, "receiver").buffer,
+					),
+			});
+		},
+		[],
+	);
+
+	// Sender side: stop a receiver from resuming its session
+	const forgetSession = useCallback((peerId: string) => {
+		const sessions = resumableSessionsRef.current;
+		for (const [token, session] of Object.entries(sessions)) {
+			if (session.peerId === peerId) delete sessions[token];
+		}
+		delete resumingPeersRef.current[peerId];
+		resumeClaimsRef.current.delete(peerId);
+	}, []);
+
+	// Sender side: turn a receiver away and close its connection
+	const rejectConnection = useCallback(
+		(conn: DataConnection, reason: string) => {
+			forgetSession(conn.peer);
+			sendMessage(conn, { type: "REJECTED", reason });
+			// Give a moment for the message to be sent before closing
+			setTimeout(() => {
+				conn.close();
+			}, 100);
+			setConnectedPeers((prev) => prev.filter((p) => p.id !== conn.peer));
+		},
+		[forgetSession],
+	);
+
+	// Throw away partial downloads along with their progress
+	const discardDownloads = useCallback((fileIds: string[]) => {
+		if (fileIds.length === 0) return;
+
+		for (const fileId of fileIds) {
+			downloadBuffersRef.current[fileId]?.sink.abort();
+			delete downloadBuffersRef.current[fileId];
+		}
+		setDownloadProgress((prev) => {
+			const newProgress = { ...prev };
+			for (const fileId of fileIds) {
+				delete newProgress[fileId];
+			}
+			return newProgress;
+		});
+		setPausedDownloads((prev) => {
+			const newPaused = { ...prev };
+			for (const fileId of fileIds) {
+				delete newPaused[fileId];
+			}
+			return newPaused;
+		});
+		setDownloadStats((prev) => {
+			const newStats = { ...prev };
+			for (const fileId of fileIds) {
+				delete newStats[fileId];
+			}
+			return newStats;
+		});
+	}, []);
+
+	// Drop partial downloads of files a peer no longer offers
+	const discardWithdrawnDownloads = useCallback(
+		(peerId: string, files: FileManifestEntry[]) => {
+			const fileIds = new Set(files.map((file) => file.id));
+			discardDownloads(
+				Object.keys(downloadBuffersRef.current).filter(
+					(fileId) =>
+						downloadBuffersRef.current[fileId].peerId === peerId &&
+						!fileIds.has(fileId),
+				),
+			);
+		},
+		[discardDownloads],
+	);
+
+	// Pick up downloads from a peer that were interrupted by a previous
+	// connection
+	const resumeDownloads = useCallback((conn: DataConnection) => {
+		for (const [fileId, fileBuffer] of Object.entries(
+			downloadBuffersRef.current,
+		)) {
+			if (fileBuffer.peerId !== conn.peer || fileBuffer.isPaused) continue;
+			requestRemainingChunks(conn, fileId, fileBuffer);
+		}
+	}, []);
+
+	// Sender side: let a verified receiver in and send it what's shared so
+	// far, with a token to resume the session if the connection drops
+	const grantAccess = useCallback(
+		(conn: DataConnection) => {
+			sendMessage(conn, { type: "VERIFICATION_COMPLETE" });
+
+			const keys = usePeerStore.getState().peerKeys[conn.peer];
+			if (keys) {
+				const token =
+					resumingPeersRef.current[conn.peer] ?? generateSessionToken();
+				delete resumingPeersRef.current[conn.peer];
+				resumableSessionsRef.current[token] = {
+					peerId: conn.peer,
+					fingerprint: getKeyFingerprint(keys),
+					isConfirmed:
+						resumableSessionsRef.current[token]?.isConfirmed ?? false,
+				};
+				sendMessage(conn, { type: "SESSION_TOKEN", token });
+			}
 
-				conn.send({
-					type: "FILE_CHUNK",
-					fileId: id,
-					chunkIndex: i,
-					data: arrayBuffer,
-					isLast: i === totalChunks - 1,
-					encrypted: useEncryption,
-					iv,
+			setSharedFiles((currentFiles) => {
+				sendMessage(conn, {
+					type: "FILES_UPDATE",
+					files: toFileManifest(currentFiles),
 				});
+				return currentFiles;
+			});
+			setSnippets((currentSnippets) => {
+				for (const snippet of currentSnippets) {
+					sendMessage(conn, { type: "TEXT_SNIPPET", ...snippet });
+				}
+				return currentSnippets;
+			});
+			resumeDownloads(conn);
+		},
+		[resumeDownloads],
+	);
+
+	// Check the identity a peer claimed against the key pinned for that
+	// device, pinning it on first sight unless it borrows the name of a known
+	// device. Only call this once the peer proved holding the key.
+	const checkPeerDevice = useCallback(
+		(peerId: string, keys: PeerKeys): DeviceTrust | undefined => {
+			const device = advertisedDevicesRef.current[peerId];
+			if (!device) return undefined;
+
+			const { knownDevices, rememberDevices } = usePeerStore.getState();
+			const trust = checkDeviceTrust(
+				knownDevices,
+				device,
+				getIdentityFingerprint(keys.signingPublicKey),
+			);
+			if (trust.status !== "changed" && !trust.isNameTaken) {
+				rememberDevices([pinDevice(knownDevices, trust)]);
+			}
+			return trust;
+		},
+		[],
+	);
+
+	// Receiver side: tell the sender who we are, sealed, with the token of
+	// our session when resuming
+	const introduceReceiver = useCallback((conn: DataConnection) => {
+		sendMessage(conn, {
+			type: "INTRODUCTION",
+			name: receiverNameRef.current ?? undefined,
+			device: toDeviceInfo(usePeerStore.getState().identity),
+			resumeToken: senderLinkRef.current?.resumeToken,
+		});
+	}, []);
+
+	// Receiver side: we're connected once the sender has verified us and we
+	// have verified the sender, whichever happens last
+	const finishReceiverVerification = useCallback(
+		(conn: DataConnection) => {
+			const {
+				isAccepted,
+				isSenderVerified,
+				isKeyConfirmed,
+				isPinVerified,
+				isDeviceTrusted,
+			} = receiverVerificationRef.current;
+			if (!isAccepted || !isSenderVerified || !isKeyConfirmed || !isPinVerified)
+				return;
+
+			// Nothing gets through until the user trusts the sender's new key
+			if (!isDeviceTrusted) {
+				setConnectionStatus("device-changed");
+				return;
+			}
+
+			setConnectionStatus("connected");
+			setIsConnected(true);
 
-				// Small delay to prevent overwhelming the connection
-				await new Promise((resolve) => setTimeout(resolve, 10));
+			// Let the sender know about files we offered to upload
+			setOfferedFiles((currentFiles) => {
+				if (currentFiles.length > 0) {
+					sendMessage(conn, {
+						type: "UPLOAD_OFFER",
+						files: toFileManifest(currentFiles),
+					});
+				}
+				return currentFiles;
+			});
+
+			resumeDownloads(conn);
+		},
+		[resumeDownloads],
+	);
+
+	// Downloading side: give up on a file that can't be completed, and stop
+	// the sender serving it
+	const failDownload = useCallback(
+		(conn: DataConnection, fileId: string) => {
+			if (conn.open) sendMessage(conn, { type: "CANCEL_TRANSFER", fileId });
+			discardDownloads([fileId]);
+			setIntegrityStatus((prev) => ({ ...prev, [fileId]: "failed" }));
+		},
+		[discardDownloads],
+	);
+
+	// Downloading side: write a chunk after the ones before it. A slow sink
+	// pauses the sender until enough writes have finished.
+	const queueChunkWrite = useCallback(
+		(
+			conn: DataConnection,
+			fileId: string,
+			fileBuffer: IncomingDownload,
+			chunk: ArrayBuffer,
+		) => {
+			fileBuffer.pendingWrites++;
+			if (
+				fileBuffer.pendingWrites >= MAX_PENDING_WRITES &&
+				!fileBuffer.isThrottled &&
+				!fileBuffer.isPaused
+			) {
+				fileBuffer.isThrottled = true;
+				sendMessage(conn, { type: "PAUSE_TRANSFER", fileId });
+			}
+
+			const write = fileBuffer.writeQueue.then(() =>
+				fileBuffer.sink.write(chunk),
+			);
+			fileBuffer.writeQueue = write;
+			write.then(
+				() => {
+					fileBuffer.pendingWrites--;
+					if (
+						fileBuffer.isThrottled &&
+						fileBuffer.pendingWrites <= MAX_PENDING_WRITES / 2
+					) {
+						fileBuffer.isThrottled = false;
+						if (
+							downloadBuffersRef.current[fileId] === fileBuffer &&
+							!fileBuffer.isPaused &&
+							conn.open
+						) {
+							requestRemainingChunks(conn, fileId, fileBuffer);
+						}
+					}
+				},
+				(error) => {
+					// Only the first failure counts, later writes fail along with it
+					if (downloadBuffersRef.current[fileId] !== fileBuffer) return;
+					console.error("Failed to write file chunk:", error);
+					failDownload(conn, fileId);
+				},
+			);
+		},
+		[failDownload],
+	);
+
+	// Downloading side: verify and finish writing a file once all of its chunks
+	// and the sender's digest have arrived
+	const finishDownload = useCallback(
+		async (conn: DataConnection, fileId: string) => {
+			const fileBuffer = downloadBuffersRef.current[fileId];
+			if (
+				!fileBuffer ||
+				fileBuffer.totalChunks === undefined ||
+				fileBuffer.receivedChunks.size < fileBuffer.totalChunks ||
+				fileBuffer.expectedDigest === undefined
+			) {
+				return;
+			}
+
+			delete downloadBuffersRef.current[fileId];
+
+			// Senders that couldn't hash the file can't be verified
+			const { expectedDigest } = fileBuffer;
+			const isIntact =
+				!expectedDigest || digestToHex(fileBuffer.hasher) === expectedDigest;
+			if (expectedDigest) {
+				setIntegrityStatus((prev) => ({
+					...prev,
+					[fileId]: isIntact ? "verified" : "failed",
+				}));
+			}
+			sendMessage(conn, { type: "TRANSFER_COMPLETE", fileId, isIntact });
+			if (isIntact) {
+				setSessionSummary((prev) =>
+					addCompletedTransfer(prev, {
+						direction: "received",
+						peerId: conn.peer,
+						peerName: peerNamesRef.current[conn.peer] ?? "Sender",
+						bytes: fileBuffer.stats.totalBytes,
+						seconds: getElapsedSeconds(fileBuffer.stats),
+					}),
+				);
+			}
+
+			try {
+				await fileBuffer.writeQueue;
+				if (isIntact) {
+					await fileBuffer.sink.close();
+				} else {
+					// Discard the corrupted file instead of saving it
+					console.error("Integrity check failed:", fileId);
+					await fileBuffer.sink.abort();
+				}
+			} catch (error) {
+				console.error("Failed to save file:", error);
+				setIntegrityStatus((prev) => ({ ...prev, [fileId]: "failed" }));
 			}
+
+			// Cleanup
+			setDownloadProgress((prev) => {
+				const newProgress = { ...prev };
+				delete newProgress[fileId];
+				return newProgress;
+			});
+			setPausedDownloads((prev) => {
+				const newPaused = { ...prev };
+				delete newPaused[fileId];
+				return newPaused;
+			});
+			setDownloadStats((prev) => {
+				const newStats = { ...prev };
+				delete newStats[fileId];
+				return newStats;
+			});
 		},
 		[],
 	);
@@ -183,29 +1226,82 @@ export function usePeer() {
 
 			switch (message.type) {
 				case "HELLO": {
-					// A receiver connected and sent their name
+					// Turn away receivers locked out after too many wrong PINs
+					const { failedPinAttempts, sharePin, isPinLocked } =
+						usePeerStore.getState();
+					if ((failedPinAttempts[conn.peer] ?? 0) >= MAX_PIN_ATTEMPTS) {
+						rejectConnection(conn, "Too many incorrect PIN attempts.");
+						break;
+					}
+
+					// A returning receiver skips the PIN. The token of its session,
+					// which also spares it the approval if it proves it holds the
+					// same keys, follows in its sealed introduction.
+					const isResuming = !!message.isResuming;
+					delete resumingPeersRef.current[conn.peer];
+					if (isResuming) {
+						resumeClaimsRef.current.add(conn.peer);
+					} else {
+						resumeClaimsRef.current.delete(conn.peer);
+					}
+
+					// Nobody gets to try a locked PIN
+					if (sharePin && isPinLocked && !isResuming) {
+						rejectConnection(conn, PIN_LOCKED_REASON);
+						break;
+					}
+
+					// A receiver connected. Transfers over an earlier connection of
+					// theirs are stale.
+					scheduler.cancelPeer(conn.peer);
 					const newPeer: ConnectedPeer = {
 						id: conn.peer,
-						name: message.name,
+						name: "New receiver", // Until it introduces itself
 						connection: conn,
 						isVerified: false,
+						isApproved: false,
+						isConfirmed: false,
+						offeredFiles: [],
+						uploads: [],
+						completedDownloads: 0,
 					};
 					setConnectedPeers((prev) => [
 						...prev.filter((p) => p.id !== conn.peer),
 						newPeer,
 					]);
 
-					// Start key exchange process
+					// Start key exchange process, with our half of the PIN
+					// handshake when the share is protected
 					if (dhKeyPair && signingKeyPair) {
 						const dhPublicKeyBuffer = exportPublicKey(dhKeyPair.publicKey);
 						const signingPublicKeyBuffer = exportPublicKey(
 							signingKeyPair.publicKey,
 						);
 
-						conn.send({
+						// Both halves of the nonces are fresh for this connection
+						const nonce = generateHandshakeNonce();
+						setHandshakeNonce(conn, "sender", nonce);
+						setHandshakeNonce(
+							conn,
+							"receiver",
+							new Uint8Array(base64ToArrayBuffer(message.nonce)),
+						);
+
+						let pakeShare: string | undefined;
+						if (sharePin && !isResuming) {
+							const state = startPake(sharePin, conn.provider.id, conn.peer);
+							updatePakeSession(conn.peer, { state });
+							pakeShare = arrayBufferToBase64(state.share.buffer);
+						} else {
+							removePakeSession(conn.peer);
+						}
+
+						sendMessage(conn, {
 							type: "KEY_EXCHANGE",
 							dhPublicKey: arrayBufferToBase64(dhPublicKeyBuffer),
 							signingPublicKey: arrayBufferToBase64(signingPublicKeyBuffer),
+							nonce: arrayBufferToBase64(nonce.buffer),
+							pake: pakeShare,
 						});
 					}
 					break;
@@ -227,35 +1323,78 @@ export function usePeer() {
 							signingPublicKeyBuffer,
 						);
 
-						// Store peer's keys
 						const newPeerKeys: PeerKeys = {
 							dhPublicKey: peerDhPublicKey,
 							signingPublicKey: peerSigningPublicKey,
 						};
-						addPeerKeys(conn.peer, newPeerKeys);
 
-						// Derive shared key
-						if (dhKeyPair) {
-							const sharedKey = deriveSharedKey(
-								dhKeyPair.privateKey,
-								peerDhPublicKey,
+						// Abort if the keys don't match the fingerprint from the link
+						const expectedFingerprint = expectedFingerprintRef.current;
+						if (
+							expectedFingerprint &&
+							getKeyFingerprint(newPeerKeys) !== expectedFingerprint
+						) {
+							console.error("Sender key fingerprint mismatch");
+							setConnectionError(
+								"The sender's keys don't match the link you opened. Someone may be intercepting the connection.",
 							);
-							updatePeerSharedKey(conn.peer, sharedKey);
+							setConnectionStatus("error");
+							conn.close();
+							break;
 						}
 
-						// Send our keys back to the sender
+						// Store peer's keys
+						addPeerKeys(conn.peer, newPeerKeys);
+						setHandshakeNonce(
+							conn,
+							"sender",
+							new Uint8Array(base64ToArrayBuffer(message.nonce)),
+						);
+
+						// Derive the session keys. A protected share derives them again
+						// once the PIN is known.
+						const sessionKeys = deriveConnectionKeys(
+							conn,
+							"receiver",
+							newPeerKeys,
+						);
+						if (sessionKeys) updatePeerSessionKeys(conn.peer, sessionKeys);
+
 						if (dhKeyPair && signingKeyPair) {
-							const dhPublicKeyBuffer = exportPublicKey(dhKeyPair.publicKey);
-							const signingPublicKeyBuffer = exportPublicKey(
-								signingKeyPair.publicKey,
+							setSafetyWords(
+								deriveSafetyWords(
+									{
+										dhPublicKey: dhKeyPair.publicKey,
+										signingPublicKey: signingKeyPair.publicKey,
+									},
+									newPeerKeys,
+								),
 							);
 
-							conn.send({
-								type: "KEY_EXCHANGE_RESPONSE",
-								dhPublicKey: arrayBufferToBase64(dhPublicKeyBuffer),
-								signingPublicKey: arrayBufferToBase64(signingPublicKeyBuffer),
+							// Reconnecting to the same sender keeps the words the user
+							// already confirmed
+							const previousKeys = peerKeys[conn.peer];
+							if (
+								!previousKeys ||
+								getKeyFingerprint(previousKeys) !==
+									getKeyFingerprint(newPeerKeys)
+							) {
+								setIsSenderConfirmed(false);
+							}
+						}
+
+						// A protected share needs the PIN before we can respond
+						if (message.pake) {
+							updatePakeSession(conn.peer, {
+								peerShare: importPublicKey(base64ToArrayBuffer(message.pake)),
 							});
+							receiverVerificationRef.current.isPinVerified = false;
+							setConnectionStatus("awaiting-pin");
+							break;
 						}
+
+						// Send our keys back to the sender
+						sendKeyExchangeResponse(conn);
 					} catch (error) {
 						console.error("Key exchange failed:", error);
 						setConnectionStatus("error");
@@ -279,6 +1418,75 @@ export function usePeer() {
 							signingPublicKeyBuffer,
 						);
 
+						// Check the receiver's proof that it knows the PIN, unless it
+						// said it's resuming a session
+						const { sharePin, pakeSessions, isPinLocked, identity } =
+							usePeerStore.getState();
+						let pakeKey: Uint8Array | undefined;
+						if (sharePin && !resumeClaimsRef.current.has(conn.peer)) {
+							// The PIN may have been locked since this handshake started
+							if (isPinLocked) {
+								removePakeSession(conn.peer);
+								rejectConnection(conn, PIN_LOCKED_REASON);
+								break;
+							}
+
+							const pakeState = pakeSessions[conn.peer]?.state;
+							try {
+								if (pakeState && message.pake && message.pakeConfirmation) {
+									const key = finishPake(
+										pakeState,
+										importPublicKey(base64ToArrayBuffer(message.pake)),
+										"sender",
+									);
+									const isPinCorrect = verifyPakeConfirmation(
+										key,
+										"receiver",
+										importPublicKey(
+											base64ToArrayBuffer(message.pakeConfirmation),
+										),
+									);
+									if (isPinCorrect) pakeKey = key;
+								}
+							} catch (error) {
+								console.error("PIN handshake failed:", error);
+							}
+
+							if (!pakeKey) {
+								const attempts = recordFailedPinAttempt(conn.peer);
+								if (usePeerStore.getState().pinFailures >= MAX_PIN_FAILURES) {
+									lockSharePin();
+									removePakeSession(conn.peer);
+									rejectConnection(conn, PIN_LOCKED_REASON);
+								} else if (attempts >= MAX_PIN_ATTEMPTS) {
+									removePakeSession(conn.peer);
+									rejectConnection(conn, "Too many incorrect PIN attempts.");
+								} else {
+									// Offer a fresh handshake for the next attempt
+									const state = startPake(
+										sharePin,
+										conn.provider.id,
+										conn.peer,
+									);
+									updatePakeSession(conn.peer, { state });
+									sendMessage(conn, {
+										type: "PIN_RETRY",
+										pake: arrayBufferToBase64(state.share.buffer),
+										attemptsLeft: MAX_PIN_ATTEMPTS - attempts,
+									});
+								}
+								break;
+							}
+
+							removePakeSession(conn.peer);
+							sendMessage(conn, {
+								type: "PIN_ACCEPTED",
+								confirmation: arrayBufferToBase64(
+									getPakeConfirmation(pakeKey, "sender").buffer,
+								),
+							});
+						}
+
 						// Store peer's keys
 						const newPeerKeys: PeerKeys = {
 							dhPublicKey: peerDhPublicKey,
@@ -286,23 +1494,62 @@ export function usePeer() {
 						};
 						addPeerKeys(conn.peer, newPeerKeys);
 
-						// Derive shared key
-						if (dhKeyPair) {
-							const sharedKey = deriveSharedKey(
-								dhKeyPair.privateKey,
-								peerDhPublicKey,
+						// Derive the session keys and check the receiver derived the
+						// same ones before anything else is sent
+						const sessionKeys = deriveConnectionKeys(
+							conn,
+							"sender",
+							newPeerKeys,
+							pakeKey,
+						);
+						const isKeyConfirmed =
+							!!sessionKeys &&
+							!!message.keyConfirmation &&
+							verifyKeyConfirmation(
+								sessionKeys,
+								"receiver",
+								importPublicKey(base64ToArrayBuffer(message.keyConfirmation)),
+							);
+						if (!sessionKeys || !isKeyConfirmed) {
+							console.error("Receiver key confirmation failed");
+							rejectConnection(
+								conn,
+								"The secure connection could not be established. Please try again.",
 							);
-							updatePeerSharedKey(conn.peer, sharedKey);
+							break;
 						}
-
-						// Initiate the challenge
-						const challenge = generateChallenge();
-						addChallenge(conn.peer, challenge);
-
-						conn.send({
-							type: "CHALLENGE",
-							challenge: arrayBufferToBase64(challenge),
+						updatePeerSessionKeys(conn.peer, sessionKeys);
+						sendMessage(conn, {
+							type: "KEY_CONFIRMATION",
+							confirmation: arrayBufferToBase64(
+								getKeyConfirmation(sessionKeys, "sender").buffer,
+							),
 						});
+						// A receiver that said it's resuming introduces itself first,
+						// and learns who we are once its token checks out
+						if (!resumeClaimsRef.current.has(conn.peer)) {
+							sendMessage(conn, {
+								type: "INTRODUCTION",
+								device: toDeviceInfo(identity),
+							});
+						}
+
+						if (dhKeyPair && signingKeyPair) {
+							const safetyWords = deriveSafetyWords(
+								{
+									dhPublicKey: dhKeyPair.publicKey,
+									signingPublicKey: signingKeyPair.publicKey,
+								},
+								newPeerKeys,
+							);
+							setConnectedPeers((prev) =>
+								prev.map((peer) =>
+									peer.id === conn.peer
+										? { ...peer, safetyWords, isConfirmed: false }
+										: peer,
+								),
+							);
+						}
 					} catch (error) {
 						console.error("Key exchange response failed:", error);
 						setConnectionStatus("error");
@@ -310,6 +1557,66 @@ export function usePeer() {
 					break;
 				}
 
+				case "INTRODUCTION": {
+					const { identity } = usePeerStore.getState();
+					advertisedDevicesRef.current[conn.peer] = message.device;
+
+					if (senderConnection?.peer === conn.peer) {
+						// We're the receiver, and the sender sealing this proves it
+						// holds the session keys. Introduce ourselves in turn, unless
+						// we're resuming and went first.
+						if (!senderLinkRef.current?.resumeToken) {
+							introduceReceiver(conn);
+						}
+					} else {
+						// Only a valid token lets a receiver that skipped the PIN in
+						// with the PIN set. A wrong one counts as a wrong PIN.
+						const { sharePin } = usePeerStore.getState();
+						const isClaimingResume = resumeClaimsRef.current.has(conn.peer);
+						const { resumeToken } = message;
+						if (resumeToken && resumableSessionsRef.current[resumeToken]) {
+							resumingPeersRef.current[conn.peer] = resumeToken;
+						} else if (sharePin && isClaimingResume) {
+							recordFailedPinAttempt(conn.peer);
+							if (usePeerStore.getState().pinFailures >= MAX_PIN_FAILURES) {
+								lockSharePin();
+								rejectConnection(conn, PIN_LOCKED_REASON);
+							} else {
+								rejectConnection(
+									conn,
+									"Your previous session could not be resumed.",
+								);
+							}
+							break;
+						}
+
+						// Now the receiver may learn who we are
+						if (isClaimingResume) {
+							sendMessage(conn, {
+								type: "INTRODUCTION",
+								device: toDeviceInfo(identity),
+							});
+						}
+
+						const name = message.name ?? "Receiver";
+						peerNamesRef.current[conn.peer] = name;
+						setConnectedPeers((prev) =>
+							prev.map((peer) =>
+								peer.id === conn.peer ? { ...peer, name } : peer,
+							),
+						);
+					}
+
+					// Challenge the peer now that we know who it claims to be
+					const challenge = generateChallenge();
+					addChallenge(conn.peer, challenge);
+					sendMessage(conn, {
+						type: "CHALLENGE",
+						challenge: arrayBufferToBase64(challenge),
+					});
+					break;
+				}
+
 				case "CHALLENGE": {
 					try {
 						const challenge = base64ToArrayBuffer(message.challenge);
@@ -320,7 +1627,7 @@ export function usePeer() {
 								signingKeyPair.privateKey,
 							);
 
-							conn.send({
+							sendMessage(conn, {
 								type: "CHALLENGE_RESPONSE",
 								signature: arrayBufferToBase64(signature),
 							});
@@ -345,35 +1652,64 @@ export function usePeer() {
 								currentPeerKeys.signingPublicKey,
 							);
 
-							if (isValid) {
-								// Mark peer as verified
+							// A receiver resuming its session skipped the PIN, so it must
+							// hold the keys that were let in before
+							const resumeToken = resumingPeersRef.current[conn.peer];
+							const session = resumeToken
+								? resumableSessionsRef.current[resumeToken]
+								: undefined;
+							const isResumeRefused =
+								!!resumeToken &&
+								session?.fingerprint !== getKeyFingerprint(currentPeerKeys);
+
+							if (isValid && senderConnection?.peer === conn.peer) {
+								// We're the receiver and the sender proved it holds the
+								// signing key it advertised
+								const device = checkPeerDevice(conn.peer, currentPeerKeys);
+								receiverVerificationRef.current.isSenderVerified = true;
+								receiverVerificationRef.current.isDeviceTrusted =
+									device?.status !== "changed";
+								setSenderDevice(device ?? null);
+								finishReceiverVerification(conn);
+							} else if (isValid && isResumeRefused) {
+								rejectConnection(
+									conn,
+									"Your previous session could not be resumed.",
+								);
+							} else if (isValid) {
+								// Mark peer as verified, holding it for approval if required
+								// or if its device presented a different key than before
+								const { requireApproval } = usePeerStore.getState();
+								const device = checkPeerDevice(conn.peer, currentPeerKeys);
+								const isApproved =
+									(!!session || !requireApproval) &&
+									device?.status !== "changed";
 								setConnectedPeers((prev) =>
 									prev.map((peer) =>
 										peer.id === conn.peer
 											? {
 													...peer,
 													isVerified: true,
-													sharedKey: currentPeerKeys.sharedKey,
+													isApproved,
+													isConfirmed: session?.isConfirmed ?? peer.isConfirmed,
+													device,
+													sessionKeys: currentPeerKeys.sessionKeys,
 												}
 											: peer,
 									),
 								);
 
-								conn.send({ type: "VERIFICATION_COMPLETE" });
-
-								// Send current files to the verified receiver
-								setSharedFiles((currentFiles) => {
-									const fileManifest = currentFiles.map((sf) => ({
-										id: sf.id,
-										name: sf.file.name,
-										size: sf.file.size,
-									}));
-									conn.send({ type: "FILES_UPDATE", files: fileManifest });
-									return currentFiles;
-								});
+								if (isApproved) {
+									grantAccess(conn);
+								} else {
+									sendMessage(conn, { type: "APPROVAL_PENDING" });
+								}
 							} else {
 								console.error("Challenge verification failed");
 								setConnectionStatus("error");
+								if (senderConnection?.peer === conn.peer) {
+									conn.close();
+								}
 							}
 
 							// Cleanup challenge
@@ -387,12 +1723,107 @@ export function usePeer() {
 				}
 
 				case "VERIFICATION_COMPLETE": {
-					setConnectionStatus("connected");
-					setIsConnected(true);
+					// The sender verified us; we may still be verifying the sender
+					receiverVerificationRef.current.isAccepted = true;
+					finishReceiverVerification(conn);
+					break;
+				}
+
+				case "PIN_RETRY": {
+					// Our PIN was wrong; the sender offers a fresh handshake
+					updatePakeSession(conn.peer, {
+						state: undefined,
+						key: undefined,
+						peerShare: importPublicKey(base64ToArrayBuffer(message.pake)),
+					});
+					setPinAttemptsLeft(message.attemptsLeft);
+					setConnectionStatus("awaiting-pin");
+					break;
+				}
+
+				case "PIN_ACCEPTED": {
+					// The sender proves it knows the PIN too
+					const pakeKey = usePeerStore.getState().pakeSessions[conn.peer]?.key;
+					const isValid =
+						pakeKey &&
+						verifyPakeConfirmation(
+							pakeKey,
+							"sender",
+							importPublicKey(base64ToArrayBuffer(message.confirmation)),
+						);
+
+					if (isValid) {
+						removePakeSession(conn.peer);
+						receiverVerificationRef.current.isPinVerified = true;
+						finishReceiverVerification(conn);
+					} else {
+						console.error("Sender PIN confirmation failed");
+						setConnectionStatus("error");
+						conn.close();
+					}
+					break;
+				}
+
+				case "KEY_CONFIRMATION": {
+					// The sender proves it derived the same session keys as we did
+					const sessionKeys =
+						usePeerStore.getState().peerKeys[conn.peer]?.sessionKeys;
+					const isValid =
+						sessionKeys &&
+						verifyKeyConfirmation(
+							sessionKeys,
+							"sender",
+							importPublicKey(base64ToArrayBuffer(message.confirmation)),
+						);
+
+					if (isValid) {
+						receiverVerificationRef.current.isKeyConfirmed = true;
+						// A resuming receiver introduces itself first, presenting its
+						// token before the sender says anything about itself
+						if (senderLinkRef.current?.resumeToken) {
+							introduceReceiver(conn);
+						}
+						finishReceiverVerification(conn);
+					} else {
+						console.error("Sender key confirmation failed");
+						setConnectionError(
+							"The sender's session keys don't match ours. Someone may be intercepting the connection.",
+						);
+						setConnectionStatus("error");
+						conn.close();
+					}
+					break;
+				}
+
+				case "APPROVAL_PENDING": {
+					setConnectionStatus("awaiting-approval");
+					break;
+				}
+
+				case "SESSION_TOKEN": {
+					// Kept to resume the session if the connection drops
+					if (senderLinkRef.current?.senderId === conn.peer) {
+						senderLinkRef.current.resumeToken = message.token;
+					}
+					break;
+				}
+
+				case "REJECTED": {
+					if (senderLinkRef.current) {
+						senderLinkRef.current.resumeToken = undefined;
+					}
+					setConnectionError(message.reason);
+					setConnectionStatus("rejected");
+					setIsConnected(false);
+					conn.close();
 					break;
 				}
 
 				case "DISCONNECTED": {
+					// The sender removed us, so there's no session to go back to
+					if (senderLinkRef.current) {
+						senderLinkRef.current.resumeToken = undefined;
+					}
 					if (senderConnection) {
 						senderConnection.close();
 					}
@@ -401,124 +1832,383 @@ export function usePeer() {
 					break;
 				}
 
-				case "FILES_UPDATE":
+				case "FILES_UPDATE": {
 					// Received file list from sender
 					setReceivedFiles(message.files);
+					discardWithdrawnDownloads(conn.peer, message.files);
+					break;
+				}
+
+				case "TEXT_SNIPPET": {
+					// Text shared by the sender
+					if (senderConnection?.peer !== conn.peer) break;
+
+					setReceivedSnippets((prev) => [
+						...prev.filter((snippet) => snippet.id !== message.id),
+						{ id: message.id, text: message.text },
+					]);
 					break;
+				}
+
+				case "REMOVE_SNIPPET": {
+					if (senderConnection?.peer === conn.peer) {
+						setReceivedSnippets((prev) =>
+							prev.filter((snippet) => snippet.id !== message.id),
+						);
+					}
+					break;
+				}
+
+				case "CHAT_MESSAGE": {
+					const { payload } = message;
+
+					const receiveChatMessage = (author: string) => {
+						setChatMessages((prev) =>
+							prev.some((m) => m.id === message.id)
+								? prev
+								: [
+										...prev,
+										{
+											id: message.id,
+											peerId: conn.peer,
+											author,
+											text: payload.text,
+											sentAt: payload.sentAt,
+											isOwn: false,
+											delivery: {},
+										},
+									],
+						);
+						sendMessage(conn, { type: "CHAT_DELIVERED", id: message.id });
+					};
+
+					// Receivers may only chat once they can see the files, and
+					// are shown by the name they introduced themselves with
+					if (senderConnection?.peer === conn.peer) {
+						receiveChatMessage(payload.name);
+					} else {
+						setConnectedPeers((prev) => {
+							const peer = prev.find((p) => p.id === conn.peer);
+							if (peer && canAccessFiles(peer)) {
+								receiveChatMessage(peer.name);
+							}
+							return prev;
+						});
+					}
+					break;
+				}
+
+				case "CHAT_DELIVERED": {
+					setChatMessages((prev) =>
+						setDeliveryStatus(prev, message.id, conn.peer, "delivered"),
+					);
+					break;
+				}
+
+				case "UPLOAD_OFFER": {
+					// A receiver offers files to upload to us
+					setConnectedPeers((prev) =>
+						prev.map((peer) =>
+							peer.id === conn.peer && canAccessFiles(peer)
+								? { ...peer, offeredFiles: message.files }
+								: peer,
+						),
+					);
+					discardWithdrawnDownloads(conn.peer, message.files);
+					break;
+				}
 
 				case "REQUEST_FILE": {
+					// The sender wants one of the files we offered to upload
+					if (senderConnection?.peer === conn.peer) {
+						setOfferedFiles((currentFiles) => {
+							const fileToSend = currentFiles.find(
+								(sf) => sf.id === message.fileId,
+							);
+							if (fileToSend) {
+								queueFile(fileToSend, conn, message.ranges);
+							}
+							return currentFiles;
+						});
+						break;
+					}
+
 					// A receiver wants to download a file
+					setConnectedPeers((currentPeers) => {
+						const requester = currentPeers.find((p) => p.id === conn.peer);
+						if (!requester || !canAccessFiles(requester)) {
+							console.warn("Ignoring file request from unapproved peer");
+							return currentPeers;
+						}
+
+						setSharedFiles((currentFiles) => {
+							const fileToSend = currentFiles.find(
+								(sf) => sf.id === message.fileId,
+							);
+							if (fileToSend) {
+								queueFile(fileToSend, conn, message.ranges);
+							}
+							return currentFiles;
+						});
+						return currentPeers;
+					});
+					break;
+				}
+
+				case "PAUSE_TRANSFER": {
+					// Stop sending if we're the one serving this file
+					scheduler.pause(conn.peer, message.fileId);
+
+					// Or the other side stopped sending a file we're downloading
+					const fileBuffer = downloadBuffersRef.current[message.fileId];
+					if (fileBuffer?.peerId === conn.peer) {
+						fileBuffer.isPaused = true;
+						setPausedDownloads((prev) => ({
+							...prev,
+							[message.fileId]: true,
+						}));
+					}
+					break;
+				}
+
+				case "RESUME_TRANSFER": {
+					const fileBuffer = downloadBuffersRef.current[message.fileId];
+					if (fileBuffer?.peerId === conn.peer) {
+						fileBuffer.isPaused = false;
+						setPausedDownloads((prev) => {
+							const newPaused = { ...prev };
+							delete newPaused[message.fileId];
+							return newPaused;
+						});
+						requestRemainingChunks(conn, message.fileId, fileBuffer);
+					}
+					break;
+				}
+
+				case "TRANSFER_PROGRESS": {
 					setSharedFiles((currentFiles) => {
-						const fileToSend = currentFiles.find(
+						const sharedFile = currentFiles.find(
 							(sf) => sf.id === message.fileId,
 						);
-						if (fileToSend) {
-							sendFileToReceiver(fileToSend, conn);
+						if (sharedFile) {
+							recordUploadProgress(
+								conn.peer,
+								sharedFile,
+								message.receivedChunks,
+							);
 						}
 						return currentFiles;
 					});
 					break;
 				}
 
-				case "FILE_METADATA":
-					// Receiving file metadata
-					downloadBuffersRef.current[message.fileId] = {
-						chunks: new Array(message.totalChunks),
-						metadata: {
-							name: message.name,
-							size: Number.parseInt(message.size),
-						},
-					};
-					setDownloadProgress((prev) => ({ ...prev, [message.fileId]: 0 }));
+				case "TRANSFER_COMPLETE": {
+					finishUploadProgress(conn.peer, message.fileId, message.isIntact);
+					break;
+				}
+
+				case "CANCEL_TRANSFER": {
+					scheduler.cancel(conn.peer, message.fileId);
+					finishUploadProgress(conn.peer, message.fileId, false);
+					if (
+						downloadBuffersRef.current[message.fileId]?.peerId === conn.peer
+					) {
+						discardDownloads([message.fileId]);
+					}
 					break;
+				}
+
+				case "FILE_METADATA": {
+					// Receiving file metadata for a download we requested. When the
+					// sender is resuming an interrupted download the chunk count is
+					// already known and the chunks written so far are kept.
+					// Files without chunks are complete once the digest is in too.
+					const fileBuffer = downloadBuffersRef.current[message.fileId];
+					if (
+						fileBuffer?.peerId === conn.peer &&
+						fileBuffer.totalChunks === undefined
+					) {
+						fileBuffer.totalChunks = message.totalChunks;
+						await finishDownload(conn, message.fileId);
+					}
+					break;
+				}
+
+				case "FILE_DIGEST": {
+					const fileBuffer = downloadBuffersRef.current[message.fileId];
+					if (fileBuffer?.peerId === conn.peer) {
+						fileBuffer.expectedDigest = message.sha256 ?? null;
+						await finishDownload(conn, message.fileId);
+					}
+					break;
+				}
 
 				case "FILE_CHUNK": {
 					// Receiving file chunk
 					const fileBuffer = downloadBuffersRef.current[message.fileId];
-					if (fileBuffer) {
+					if (fileBuffer?.peerId === conn.peer) {
 						// Ensure we don't process the same chunk twice
-						if (fileBuffer.chunks[message.chunkIndex] === undefined) {
-							let chunkData = message.data;
-
-							// Decrypt chunk if it's encrypted
-							if (
-								message.encrypted &&
-								message.iv &&
-								usePeerStore.getState().senderConnection
-							) {
-								const currentPeerKeys =
-									usePeerStore.getState().peerKeys[
-										usePeerStore.getState().senderConnection?.peer || ""
-									];
-								if (currentPeerKeys?.sharedKey) {
-									try {
-										const encryptedData: EncryptedData = {
-											data: message.data,
-											iv: base64ToArrayBuffer(message.iv),
-										};
-										chunkData = await decryptData(
-											encryptedData,
-											currentPeerKeys.sharedKey,
-										);
-									} catch (error) {
-										console.error("Failed to decrypt chunk:", error);
-										// Use encrypted data as fallback (will likely be corrupted)
-									}
-								}
+						if (!fileBuffer.receivedChunks.has(message.chunkIndex)) {
+							// The file can't be completed without the chunk, so give up
+							// on it
+							if (!isExpectedChunk(message, fileBuffer.stats.totalBytes)) {
+								console.error(
+									"Rejected file chunk:",
+									message.fileId,
+									message.chunkIndex,
+								);
+								failDownload(conn, message.fileId);
+								break;
 							}
 
-							fileBuffer.chunks[message.chunkIndex] = chunkData;
+							fileBuffer.pendingChunks.set(message.chunkIndex, message.data);
+							fileBuffer.receivedChunks.add(message.chunkIndex);
+
+							// Write every chunk that is now next in line
+							let nextChunk = fileBuffer.pendingChunks.get(
+								fileBuffer.nextChunkIndex,
+							);
+							while (nextChunk !== undefined) {
+								const chunk = nextChunk;
+								fileBuffer.pendingChunks.delete(fileBuffer.nextChunkIndex);
+								fileBuffer.nextChunkIndex++;
+								fileBuffer.hasher.update(new Uint8Array(chunk));
+								queueChunkWrite(conn, message.fileId, fileBuffer, chunk);
+								nextChunk = fileBuffer.pendingChunks.get(
+									fileBuffer.nextChunkIndex,
+								);
+							}
 						}
 
-						const received = fileBuffer.chunks.filter(
-							(chunk) => chunk !== undefined,
-						).length;
-						const progress = (received / fileBuffer.chunks.length) * 100;
+						const received = fileBuffer.receivedChunks.size;
+						const totalChunks =
+							fileBuffer.totalChunks ?? Number.POSITIVE_INFINITY;
+						const progress = (received / totalChunks) * 100;
 						setDownloadProgress((prev) => ({
 							...prev,
 							[message.fileId]: progress,
 						}));
 
-						// If all chunks are received, assemble and download the file
-						if (received === fileBuffer.chunks.length) {
-							const completeFile = new Blob(fileBuffer.chunks);
-							const url = URL.createObjectURL(completeFile);
-							const a = document.createElement("a");
-							a.href = url;
-							a.download = fileBuffer.metadata.name;
-							document.body.appendChild(a); // Append for browser compatibility
-							a.click();
-							URL.revokeObjectURL(url);
-							a.remove();
-
-							// Cleanup
-							delete downloadBuffersRef.current[message.fileId];
-							setDownloadProgress((prev) => {
-								const newProgress = { ...prev };
-								delete newProgress[message.fileId];
-								return newProgress;
+						const stats = updateTransferStats(
+							fileBuffer.stats,
+							Math.min(received * CHUNK_SIZE, fileBuffer.stats.totalBytes),
+						);
+						if (stats !== fileBuffer.stats) {
+							fileBuffer.stats = stats;
+							setDownloadStats((prev) => ({
+								...prev,
+								[message.fileId]: stats,
+							}));
+						}
+
+						// Let the sender follow our progress
+						if (
+							received % PROGRESS_ACK_INTERVAL === 0 &&
+							received < totalChunks
+						) {
+							sendMessage(conn, {
+								type: "TRANSFER_PROGRESS",
+								fileId: message.fileId,
+								receivedChunks: received,
 							});
 						}
+
+						await finishDownload(conn, message.fileId);
 					}
 					break;
 				}
 			}
 		},
 		[
-			sendFileToReceiver,
+			scheduler,
+			queueFile,
+			discardDownloads,
+			failDownload,
+			queueChunkWrite,
+			finishDownload,
+			recordUploadProgress,
+			finishUploadProgress,
+			sendKeyExchangeResponse,
+			rejectConnection,
+			finishReceiverVerification,
+			introduceReceiver,
+			grantAccess,
+			checkPeerDevice,
+			discardWithdrawnDownloads,
 			addPeerKeys,
-			updatePeerSharedKey,
+			updatePeerSessionKeys,
 			addChallenge,
 			removeChallenge,
+			updatePakeSession,
+			removePakeSession,
+			recordFailedPinAttempt,
+			lockSharePin,
 		],
 	);
 
+	// Opens a frame off the data channel and hands it to handlePeerMessage.
+	// A sealed frame that won't open means the keys or the stream can't be
+	// trusted any more, so the connection is closed.
+	const receiveFrame = useCallback(
+		(conn: DataConnection, data: unknown) => {
+			if (typeof data !== "object" || data === null) {
+				console.error("Dropped a message that wasn't a frame");
+				diagnosticsLog.add({
+					kind: "error",
+					peerId: conn.peer,
+					type: "dropped frame",
+				});
+				return;
+			}
+
+			const frame = data as PeerMessage | SealedFrame;
+			const message = openFrame(conn, frame);
+			if (!message) {
+				if (frame.type === "SEALED") {
+					console.error("Closing a connection whose message didn't open");
+					diagnosticsLog.add({
+						kind: "error",
+						peerId: conn.peer,
+						type: "undecryptable frame",
+					});
+					conn.close();
+				} else {
+					console.error("Dropped a message that wasn't sealed");
+					diagnosticsLog.add({
+						kind: "error",
+						peerId: conn.peer,
+						type: "dropped frame",
+					});
+				}
+				return;
+			}
+
+			handlePeerMessage(message, conn).catch((error) => {
+				console.error(`Failed to handle ${message.type}:`, error);
+				diagnosticsLog.add({
+					kind: "error",
+					peerId: conn.peer,
+					type: `${message.type} failed`,
+					detail: error instanceof Error ? error.message : String(error),
+				});
+			});
+		},
+		[handlePeerMessage, diagnosticsLog],
+	);
+
 	// Initialize crypto keys
 	useEffect(() => {
-		const initializeCrypto = () => {
+		const initializeCrypto = async () => {
+			// A saved identity brings its long-term signing key
+			const identity = await restoreIdentity().catch((error) => {
+				console.error("Failed to load device identity:", error);
+				return null;
+			});
+
 			try {
 				const dhKeyPair = generateKeyPair();
-				const signingKeyPair = generateSigningKeyPair();
+				const signingKeyPair =
+					identity?.signingKeyPair ?? generateSigningKeyPair();
 				setCryptoKeys(dhKeyPair, signingKeyPair);
 			} catch (error) {
 				console.error("Failed to initialize crypto keys:", error);
@@ -526,40 +2216,64 @@ export function usePeer() {
 		};
 
 		initializeCrypto();
-	}, [setCryptoKeys]);
+	}, [setCryptoKeys, restoreIdentity]);
 
 	// Initialize PeerJS
 	useEffect(() => {
-		const peer = new Peer({
-			config: {
-				iceServers: [
-					// Google's free STUN servers
-					{ urls: "stun:stun.l.google.com:19302" },
-					{ urls: "stun:stun1.l.google.com:19302" },
-					{ urls: "stun:stun2.l.google.com:19302" },
-					{ urls: "stun:stun3.l.google.com:19302" },
-					{ urls: "stun:stun4.l.google.com:19302" },
-				],
-			},
-		});
+		// Changing the servers starts over with a new peer ID
+		setPeerId(null);
+		const peer = new Peer(toPeerOptions(serverConfig));
 		peerRef.current = peer;
 
+		// Get back on the signalling server with backoff when it drops us, so
+		// receivers can still reach us. Open connections carry on meanwhile.
+		let brokerAttempt = 0;
+		let brokerTimer: ReturnType<typeof setTimeout> | undefined;
+		const reconnectToBroker = () => {
+			if (peer.destroyed || brokerTimer) return;
+			brokerTimer = setTimeout(() => {
+				brokerTimer = undefined;
+				if (!peer.destroyed && peer.disconnected) peer.reconnect();
+			}, getReconnectDelay(brokerAttempt++));
+		};
+
 		peer.on("open", (id) => {
+			brokerAttempt = 0;
 			setPeerId(id);
+			diagnosticsLog.add({
+				kind: "state",
+				peerId: null,
+				type: "signalling open",
+			});
+		});
+
+		peer.on("disconnected", () => {
+			diagnosticsLog.add({
+				kind: "state",
+				peerId: null,
+				type: "signalling disconnected",
+			});
+			reconnectToBroker();
 		});
 
 		peer.on("connection", (conn) => {
+			traceConnection(conn, diagnosticsLog);
+			// The receiver may come back with its session token, possibly before
+			// we notice its old connection is gone
 			const handleDisconnect = () => {
-				setConnectedPeers((prev) => prev.filter((p) => p.id !== conn.peer));
+				setConnectedPeers((prev) => {
+					if (!prev.some((p) => p.connection === conn)) return prev;
+					scheduler.cancelPeer(conn.peer);
+					setChatMessages((messages) => markUndelivered(messages, conn.peer));
+					return prev.filter((p) => p.connection !== conn);
+				});
 			};
 
 			conn.on("open", () => {
 				// Wait for hello message to get the peer's name
 			});
 
-			conn.on("data", (data) => {
-				handlePeerMessage(data as PeerMessage, conn);
-			});
+			conn.on("data", (data) => receiveFrame(conn, data));
 
 			conn.on("close", handleDisconnect);
 			conn.on("error", handleDisconnect);
@@ -567,34 +2281,53 @@ export function usePeer() {
 
 		peer.on("error", (error) => {
 			console.error("PeerJS error:", error);
+			diagnosticsLog.add({
+				kind: "error",
+				peerId: null,
+				type: error.type,
+				detail: error.message,
+			});
+
+			// A failed reconnect to the signalling server doesn't always report
+			// the disconnect again
+			if (peer.disconnected) reconnectToBroker();
+
+			// Tell a receiver that is still connecting why it failed, e.g. the
+			// sender is gone or the signalling server is unreachable
+			if (usePeerStore.getState().senderConnection) {
+				setConnectionStatus((prev) => {
+					// Failing to reach the sender again moves on to the next attempt
+					if (prev === "reconnecting") {
+						setReconnectAttempt((attempt) => attempt + 1);
+						return prev;
+					}
+					if (prev !== "connecting" && prev !== "verifying") return prev;
+					setConnectionError(`${error.message} (${error.type})`);
+					return "error";
+				});
+			}
 		});
 
 		return () => {
+			clearTimeout(brokerTimer);
 			peer.destroy();
 		};
-	}, [handlePeerMessage]);
+	}, [receiveFrame, scheduler, serverConfig, diagnosticsLog]);
 
 	const addFiles = useCallback(
 		(files: File[]) => {
-			const newSharedFiles = files.map((file) => ({
-				file,
-				id: crypto.randomUUID(),
-			}));
+			const newSharedFiles = toSharedFiles(files);
 
 			setSharedFiles((prev) => {
 				const updatedFiles = [...prev, ...newSharedFiles];
 				setIsSender(true);
 
-				// Broadcast updated file list to all connected receivers
-				const fileManifest = updatedFiles.map((sf) => ({
-					id: sf.id,
-					name: sf.file.name,
-					size: sf.file.size,
-				}));
+				// Broadcast updated file list to all approved receivers
+				const fileManifest = toFileManifest(updatedFiles);
 
 				setConnectedPeers((currentPeers) => {
-					currentPeers.forEach((peer) => {
-						peer.connection.send({
+					currentPeers.filter(canAccessFiles).forEach((peer) => {
+						sendMessage(peer.connection, {
 							type: "FILES_UPDATE",
 							files: fileManifest,
 						});
@@ -608,100 +2341,781 @@ export function usePeer() {
 		[setIsSender],
 	);
 
+	const addSnippet = useCallback(
+		(text: string) => {
+			if (!text.trim()) return;
+			const snippet: TextSnippet = { id: crypto.randomUUID(), text };
+			setSnippets((prev) => [...prev, snippet]);
+			setIsSender(true);
+
+			// Send it to all approved receivers
+			setConnectedPeers((currentPeers) => {
+				for (const peer of currentPeers.filter(canAccessFiles)) {
+					sendMessage(peer.connection, { type: "TEXT_SNIPPET", ...snippet });
+				}
+				return currentPeers;
+			});
+		},
+		[setIsSender],
+	);
+
+	const removeSnippet = useCallback((snippetId: string) => {
+		setSnippets((prev) => prev.filter((snippet) => snippet.id !== snippetId));
+		setConnectedPeers((currentPeers) => {
+			for (const peer of currentPeers.filter(canAccessFiles)) {
+				sendMessage(peer.connection, { type: "REMOVE_SNIPPET", id: snippetId });
+			}
+			return currentPeers;
+		});
+	}, []);
+
+	// Send a chat message. The sender writes to every approved receiver, or
+	// replies to one; receivers always write to the sender.
+	const sendChatMessage = useCallback(
+		(text: string, recipientId?: string) => {
+			if (!text.trim()) return;
+
+			const { senderConnection } = usePeerStore.getState();
+			const recipients = senderConnection
+				? [senderConnection]
+				: connectedPeers
+						.filter(
+							(peer) =>
+								canAccessFiles(peer) &&
+								(!recipientId || peer.id === recipientId),
+						)
+						.map((peer) => peer.connection);
+			if (recipients.length === 0) return;
+
+			const name = receiverNameRef.current ?? "Sender";
+			const message: ChatMessage = {
+				id: crypto.randomUUID(),
+				peerId: senderConnection?.peer ?? recipientId,
+				author: name,
+				text,
+				sentAt: Date.now(),
+				isOwn: true,
+				delivery: Object.fromEntries(
+					recipients.map((conn) => [conn.peer, "sending"]),
+				),
+			};
+			setChatMessages((prev) => [...prev, message]);
+
+			const payload: ChatPayload = { name, text, sentAt: message.sentAt };
+			for (const conn of recipients) {
+				const isSent = sendMessage(conn, {
+					type: "CHAT_MESSAGE",
+					id: message.id,
+					payload,
+				});
+				if (!isSent) {
+					console.error("Failed to send chat message to", conn.peer);
+					setChatMessages((prev) =>
+						setDeliveryStatus(prev, message.id, conn.peer, "failed"),
+					);
+				}
+			}
+		},
+		[connectedPeers],
+	);
+
+	// Connect to a sender. Automatic reconnects after a dropped connection
+	// keep retrying on failure instead of giving up.
 	const connectToSender = useCallback(
-		(senderId: string) => {
-			if (!peerRef.current) return;
+		(senderId: string, fingerprint?: string, isAutomatic = false) => {
+			const peer = peerRef.current;
+			if (!peer) return;
+
+			// Keep the session token when coming back to the same sender
+			const link = senderLinkRef.current;
+			senderLinkRef.current = {
+				senderId,
+				fingerprint,
+				resumeToken: link?.senderId === senderId ? link.resumeToken : undefined,
+			};
 
-			const conn = peerRef.current.connect(senderId);
+			// Connecting needs the signalling server, which we reconnect to by
+			// ourselves
+			if (peer.disconnected) {
+				if (isAutomatic) {
+					setReconnectAttempt((attempt) => attempt + 1);
+				} else {
+					setConnectionError(
+						"Lost the connection to the signalling server. Please try again in a moment.",
+					);
+					setConnectionStatus("error");
+				}
+				return;
+			}
+
+			expectedFingerprintRef.current = fingerprint ?? null;
+			receiverVerificationRef.current = {
+				isAccepted: false,
+				isSenderVerified: false,
+				isKeyConfirmed: false,
+				isPinVerified: true,
+				isDeviceTrusted: true,
+			};
+			setPinAttemptsLeft(null);
+			setSenderDevice(null);
+			// Drop an earlier attempt that never got through
+			usePeerStore.getState().senderConnection?.close();
+			const conn = peer.connect(senderId);
+			traceConnection(conn, diagnosticsLog);
 			setSenderConnection(conn);
+			if (!isAutomatic) setConnectionStatus("connecting");
+			setConnectionError(null);
 
 			conn.on("open", () => {
 				setConnectionStatus("verifying");
 				setIsSender(false);
 
-				// Generate a unique name for this receiver
-				const receiverName = uniqueNamesGenerator({
-					dictionaries: [adjectives, animals],
-					separator: "-",
-					style: "capital",
+				// Generate a unique name for this receiver, keeping the one we had
+				// when resuming a session. Devices with an identity use its name.
+				const { resumeToken } = senderLinkRef.current ?? {};
+				const receiverName =
+					resumeToken && receiverNameRef.current
+						? receiverNameRef.current
+						: (usePeerStore.getState().identity?.name ?? generateName());
+
+				// Send hello message with our half of the nonces. The name follows
+				// in our sealed introduction.
+				receiverNameRef.current = receiverName;
+				const nonce = generateHandshakeNonce();
+				setHandshakeNonce(conn, "receiver", nonce);
+				sendMessage(conn, {
+					type: "HELLO",
+					nonce: arrayBufferToBase64(nonce.buffer),
+					isResuming: !!resumeToken,
 				});
-
-				// Send hello message with our name
-				conn.send({ type: "HELLO", name: receiverName });
 			});
 
-			conn.on("data", (data) => {
-				handlePeerMessage(data as PeerMessage, conn);
-			});
+			conn.on("data", (data) => receiveFrame(conn, data));
 
+			// Partial downloads are kept so they resume on the next connection
 			const handleDisconnect = () => {
+				scheduler.cancelPeer(senderId);
 				setSenderConnection(null);
 				setIsConnected(false);
 				setReceivedFiles([]);
+				setReceivedSnippets([]);
+				setChatMessages((prev) => markUndelivered(prev, senderId));
+				setConnectionStatus((prev) => {
+					if (
+						prev === "error" ||
+						prev === "rejected" ||
+						prev === "disconnected"
+					) {
+						return prev;
+					}
+					// Retry a dropped connection, and failed attempts to restore one
+					if (prev === "connected" || isAutomatic) {
+						setReconnectAttempt((attempt) =>
+							prev === "connected" ? 0 : attempt + 1,
+						);
+						return "reconnecting";
+					}
+					return "disconnected";
+				});
 			};
 
 			conn.on("close", handleDisconnect);
 			conn.on("error", handleDisconnect);
 		},
-		[handlePeerMessage, setSenderConnection, setIsSender],
+		[receiveFrame, scheduler, setSenderConnection, setIsSender, diagnosticsLog],
 	);
 
-	const requestFile = useCallback((fileId: string) => {
-		const { senderConnection } = usePeerStore.getState();
-		if (senderConnection) {
-			senderConnection.send({ type: "REQUEST_FILE", fileId });
+	// Receiver side: reconnect to the sender with backoff after a dropped
+	// connection, resuming the session with our token
+	useEffect(() => {
+		const link = senderLinkRef.current;
+		if (connectionStatus !== "reconnecting" || !link) return;
+		if (reconnectAttempt >= MAX_RECONNECT_ATTEMPTS) {
+			setConnectionStatus("disconnected");
+			return;
 		}
-	}, []);
 
-	const removePeer = useCallback((peerId: string) => {
-		setConnectedPeers((currentPeers) => {
-			const peerToRemove = currentPeers.find((p) => p.id === peerId);
-			if (peerToRemove) {
-				peerToRemove.connection.send({ type: "DISCONNECTED" });
-				// Give a moment for the message to be sent before closing
-				setTimeout(() => {
-					peerToRemove.connection.close();
-				}, 100);
-			}
-			return currentPeers.filter((p) => p.id !== peerId);
+		let attemptTimeout: ReturnType<typeof setTimeout> | undefined;
+		const timer = setTimeout(() => {
+			connectToSender(link.senderId, link.fingerprint, true);
+			attemptTimeout = setTimeout(
+				() => setReconnectAttempt((attempt) => attempt + 1),
+				RECONNECT_ATTEMPT_TIMEOUT,
+			);
+		}, getReconnectDelay(reconnectAttempt));
+
+		return () => {
+			clearTimeout(timer);
+			clearTimeout(attemptTimeout);
+		};
+	}, [connectionStatus, reconnectAttempt, connectToSender]);
+
+	// Ask a peer for one of its files, streaming it to a sink the user picks
+	const startDownload = useCallback(
+		async (
+			conn: DataConnection,
+			fileInfo: FileManifestEntry,
+			openSink = () => createFileSink(fileInfo.name, fileInfo.size),
+		) => {
+			const fileId = fileInfo.id;
+
+			// Open the destination first, while we still have the user gesture
+			let sink: FileSink;
+			try {
+				sink = await openSink();
+			} catch (error) {
+				if (!(error instanceof DOMException && error.name === "AbortError")) {
+					console.error("Failed to open file for saving:", error);
+				}
+				return;
+			}
+
+			downloadBuffersRef.current[fileId] = {
+				peerId: conn.peer,
+				sink,
+				nextChunkIndex: 0,
+				pendingChunks: new Map(),
+				receivedChunks: new Set(),
+				writeQueue: Promise.resolve(),
+				pendingWrites: 0,
+				isThrottled: false,
+				hasher: createHasher(),
+				isPaused: false,
+				stats: createTransferStats(fileInfo.size),
+			};
+			setDownloadProgress((prev) => ({ ...prev, [fileId]: 0 }));
+			setIntegrityStatus((prev) => {
+				const newStatus = { ...prev };
+				delete newStatus[fileId];
+				return newStatus;
+			});
+			sendMessage(conn, { type: "REQUEST_FILE", fileId });
+		},
+		[],
+	);
+
+	const requestFile = useCallback(
+		(fileId: string) => {
+			const { senderConnection } = usePeerStore.getState();
+			const fileInfo = receivedFiles.find((file) => file.id === fileId);
+			if (senderConnection && fileInfo) {
+				startDownload(senderConnection, fileInfo);
+			}
+		},
+		[receivedFiles, startDownload],
+	);
+
+	// Download every file in a folder, recreating its layout inside a folder
+	// the user picks. Without folder access the files are saved one by one.
+	const requestFolder = useCallback(
+		async (folderPath: string) => {
+			const { senderConnection } = usePeerStore.getState();
+			if (!senderConnection) return;
+
+			let directory: FileSystemDirectoryHandle | null;
+			try {
+				directory = await pickDirectory();
+			} catch (error) {
+				if (!(error instanceof DOMException && error.name === "AbortError")) {
+					console.error("Failed to open folder for saving:", error);
+				}
+				return;
+			}
+
+			// Paths are written relative to the folder's parent, so the folder
+			// itself is recreated inside the picked directory
+			const folderSegments = folderPath.split("/");
+			for (const fileInfo of receivedFiles) {
+				const segments = fileInfo.path ? getPathSegments(fileInfo.path) : null;
+				const isInFolder =
+					segments !== null &&
+					segments.length > folderSegments.length &&
+					folderSegments.every((name, i) => segments[i] === name);
+				if (!isInFolder || fileInfo.id in downloadBuffersRef.current) {
+					continue;
+				}
+
+				const targetSegments = segments.slice(folderSegments.length - 1);
+				await startDownload(
+					senderConnection,
+					fileInfo,
+					directory
+						? () => createDirectoryFileSink(directory, targetSegments)
+						: undefined,
+				);
+			}
+		},
+		[receivedFiles, startDownload],
+	);
+
+	// Download several files as one ZIP archive, streamed to disk as they
+	// arrive. Files are fetched one after another since a ZIP is sequential.
+	const downloadArchive = useCallback(
+		async (fileIds: string[]) => {
+			const { senderConnection } = usePeerStore.getState();
+			const files = receivedFiles.filter(
+				(file) =>
+					fileIds.includes(file.id) && !(file.id in downloadBuffersRef.current),
+			);
+			if (!senderConnection || files.length === 0) return;
+
+			// Folder paths are kept, anything unsafe falls back to a sanitized
+			// file name
+			const entries: ZipEntryInfo[] = files.map((file) => ({
+				path:
+					getPathSegments(file.path ?? "")?.join("/") ||
+					getSafeFileName(file.name),
+				size: file.size,
+			}));
+
+			let sink: FileSink;
+			try {
+				sink = await createFileSink("dropshare.zip", getZipSize(entries));
+			} catch (error) {
+				if (!(error instanceof DOMException && error.name === "AbortError")) {
+					console.error("Failed to open archive for saving:", error);
+				}
+				return;
+			}
+
+			const archive = createZipWriter(sink);
+			try {
+				for (const [index, fileInfo] of files.entries()) {
+					const entry = archive.addEntry(entries[index]);
+					await startDownload(senderConnection, fileInfo, async () => entry);
+					await entry.done;
+				}
+				await archive.close();
+			} catch (error) {
+				console.error("Failed to download archive:", error);
+				await archive.abort();
+			}
+		},
+		[receivedFiles, startDownload],
+	);
+
+	// The open connection to a peer, whichever side of the share it is on
+	const getConnection = useCallback(
+		(peerId: string) => {
+			const { senderConnection } = usePeerStore.getState();
+			if (senderConnection?.peer === peerId) return senderConnection;
+			return connectedPeers.find((p) => p.id === peerId)?.connection;
+		},
+		[connectedPeers],
+	);
+
+	// Downloading side: stop a download but keep what has arrived so far
+	const pauseDownload = useCallback(
+		(fileId: string) => {
+			const fileBuffer = downloadBuffersRef.current[fileId];
+			if (!fileBuffer || fileBuffer.isPaused) return;
+
+			fileBuffer.isPaused = true;
+			setPausedDownloads((prev) => ({ ...prev, [fileId]: true }));
+			const conn = getConnection(fileBuffer.peerId);
+			if (conn) sendMessage(conn, { type: "PAUSE_TRANSFER", fileId });
+		},
+		[getConnection],
+	);
+
+	const resumeDownload = useCallback(
+		(fileId: string) => {
+			const fileBuffer = downloadBuffersRef.current[fileId];
+			const conn = fileBuffer && getConnection(fileBuffer.peerId);
+			if (!fileBuffer?.isPaused || !conn) return;
+
+			fileBuffer.isPaused = false;
+			setPausedDownloads((prev) => {
+				const newPaused = { ...prev };
+				delete newPaused[fileId];
+				return newPaused;
+			});
+			requestRemainingChunks(conn, fileId, fileBuffer);
+		},
+		[getConnection],
+	);
+
+	const cancelDownload = useCallback(
+		(fileId: string) => {
+			const fileBuffer = downloadBuffersRef.current[fileId];
+			if (!fileBuffer) return;
+
+			const conn = getConnection(fileBuffer.peerId);
+			if (conn) sendMessage(conn, { type: "CANCEL_TRANSFER", fileId });
+			discardDownloads([fileId]);
+		},
+		[getConnection, discardDownloads],
+	);
+
+	// Sending side: the same controls for a transfer in the queue
+	const pauseTransfer = useCallback(
+		(transferId: string) => {
+			const transfer = transferQueue.find((t) => t.id === transferId);
+			if (!transfer) return;
+
+			scheduler.pause(transfer.peerId, transfer.fileId);
+			const conn = getConnection(transfer.peerId);
+			if (conn) {
+				sendMessage(conn, { type: "PAUSE_TRANSFER", fileId: transfer.fileId });
+			}
+		},
+		[transferQueue, scheduler, getConnection],
+	);
+
+	// The receiver knows what it's missing, so it requests the rest
+	const resumeTransfer = useCallback(
+		(transferId: string) => {
+			const transfer = transferQueue.find((t) => t.id === transferId);
+			if (!transfer) return;
+
+			const conn = getConnection(transfer.peerId);
+			if (conn) {
+				sendMessage(conn, { type: "RESUME_TRANSFER", fileId: transfer.fileId });
+			}
+		},
+		[transferQueue, getConnection],
+	);
+
+	const cancelTransfer = useCallback(
+		(transferId: string) => {
+			const transfer = transferQueue.find((t) => t.id === transferId);
+			if (!transfer) return;
+
+			scheduler.cancel(transfer.peerId, transfer.fileId);
+			finishUploadProgress(transfer.peerId, transfer.fileId, false);
+			const conn = getConnection(transfer.peerId);
+			if (conn) {
+				sendMessage(conn, { type: "CANCEL_TRANSFER", fileId: transfer.fileId });
+			}
+		},
+		[transferQueue, scheduler, getConnection, finishUploadProgress],
+	);
+
+	// Sender side: download a file a receiver offered to upload
+	const acceptUpload = useCallback(
+		(fileId: string) => {
+			const peer = connectedPeers.find((p) =>
+				p.offeredFiles.some((file) => file.id === fileId),
+			);
+			const fileInfo = peer?.offeredFiles.find((file) => file.id === fileId);
+			if (peer && fileInfo && canAccessFiles(peer)) {
+				startDownload(peer.connection, fileInfo);
+			}
+		},
+		[connectedPeers, startDownload],
+	);
+
+	// Receiver side: offer files to the sender and tell it what's available
+	const offerFiles = useCallback((files: File[]) => {
+		const newOfferedFiles = toSharedFiles(files);
+
+		setOfferedFiles((prev) => {
+			const updatedFiles = [...prev, ...newOfferedFiles];
+			const { senderConnection } = usePeerStore.getState();
+			if (senderConnection) {
+				sendMessage(senderConnection, {
+					type: "UPLOAD_OFFER",
+					files: toFileManifest(updatedFiles),
+				});
+			}
+			return updatedFiles;
 		});
 	}, []);
 
-	const removeFile = useCallback((fileId: string) => {
-		setSharedFiles((prev) => {
-			const updatedFiles = prev.filter((sf) => sf.id !== fileId);
+	const withdrawOfferedFile = useCallback(
+		(fileId: string) => {
+			scheduler.cancelFile(fileId);
+			setOfferedFiles((prev) => {
+				const updatedFiles = prev.filter((sf) => sf.id !== fileId);
+				const { senderConnection } = usePeerStore.getState();
+				if (senderConnection) {
+					sendMessage(senderConnection, {
+						type: "UPLOAD_OFFER",
+						files: toFileManifest(updatedFiles),
+					});
+				}
+				return updatedFiles;
+			});
+		},
+		[scheduler],
+	);
+
+	const removePeer = useCallback(
+		(peerId: string) => {
+			scheduler.cancelPeer(peerId);
+			forgetSession(peerId);
+			setConnectedPeers((currentPeers) => {
+				const peerToRemove = currentPeers.find((p) => p.id === peerId);
+				if (peerToRemove) {
+					sendMessage(peerToRemove.connection, { type: "DISCONNECTED" });
+					// Give a moment for the message to be sent before closing
+					setTimeout(() => {
+						peerToRemove.connection.close();
+					}, 100);
+				}
+				return currentPeers.filter((p) => p.id !== peerId);
+			});
+		},
+		[scheduler, forgetSession],
+	);
 
-			// Broadcast updated file list to all connected receivers
-			const fileManifest = updatedFiles.map((sf) => ({
-				id: sf.id,
-				name: sf.file.name,
-				size: sf.file.size,
-			}));
+	const approvePeer = useCallback(
+		(peerId: string) => {
+			setConnectedPeers((currentPeers) => {
+				const peerToApprove = currentPeers.find((p) => p.id === peerId);
+				if (
+					!peerToApprove?.isVerified ||
+					peerToApprove.isApproved ||
+					peerToApprove.device?.status === "changed"
+				) {
+					return currentPeers;
+				}
+
+				grantAccess(peerToApprove.connection);
 
+				return currentPeers.map((peer) =>
+					peer.id === peerId ? { ...peer, isApproved: true } : peer,
+				);
+			});
+		},
+		[grantAccess],
+	);
+
+	const rejectPeer = useCallback(
+		(peerId: string, reason = DEFAULT_REJECTION_REASON) => {
 			setConnectedPeers((currentPeers) => {
-				currentPeers.forEach((peer) => {
-					peer.connection.send({ type: "FILES_UPDATE", files: fileManifest });
-				});
+				const peerToReject = currentPeers.find((p) => p.id === peerId);
+				if (peerToReject) {
+					rejectConnection(peerToReject.connection, reason);
+				}
 				return currentPeers;
 			});
+		},
+		[rejectConnection],
+	);
 
-			return updatedFiles;
-		});
+	// Receiver side: answer the sender's PIN handshake with the PIN the user
+	// entered
+	const submitPin = useCallback(
+		(pin: string) => {
+			const { senderConnection, pakeSessions, peerKeys } =
+				usePeerStore.getState();
+			if (!senderConnection) return;
+
+			const senderId = senderConnection.peer;
+			const peerShare = pakeSessions[senderId]?.peerShare;
+			const senderKeys = peerKeys[senderId];
+			if (!peerShare || !senderKeys) return;
+
+			try {
+				const state = startPake(pin, senderId, senderConnection.provider.id);
+				const key = finishPake(state, peerShare, "receiver");
+				updatePakeSession(senderId, { state, key });
+				const sessionKeys = deriveConnectionKeys(
+					senderConnection,
+					"receiver",
+					senderKeys,
+					key,
+				);
+				if (sessionKeys) updatePeerSessionKeys(senderId, sessionKeys);
+
+				setConnectionStatus("verifying");
+				sendKeyExchangeResponse(senderConnection, {
+					share: state.share,
+					confirmation: getPakeConfirmation(key, "receiver"),
+				});
+			} catch (error) {
+				console.error("PIN handshake failed:", error);
+				setConnectionStatus("error");
+			}
+		},
+		[sendKeyExchangeResponse, updatePakeSession, updatePeerSessionKeys],
+	);
+
+	const confirmPeer = useCallback((peerId: string) => {
+		// Remembered in case the receiver resumes its session
+		for (const session of Object.values(resumableSessionsRef.current)) {
+			if (session.peerId === peerId) session.isConfirmed = true;
+		}
+		setConnectedPeers((prev) =>
+			prev.map((peer) =>
+				peer.id === peerId ? { ...peer, isConfirmed: true } : peer,
+			),
+		);
+	}, []);
+
+	const confirmSender = useCallback(() => {
+		setIsSenderConfirmed(true);
 	}, []);
 
+	// Keep our current signing key as this device's long-term identity, so
+	// peers recognize this device on later visits, or stop using one
+	const setIdentityEnabled = useCallback(
+		(isEnabled: boolean) => {
+			const { signingKeyPair } = usePeerStore.getState();
+			if (!isEnabled) {
+				setIdentity(null);
+			} else if (signingKeyPair) {
+				setIdentity({
+					id: crypto.randomUUID(),
+					name: generateName(),
+					signingKeyPair,
+					createdAt: Date.now(),
+				});
+			}
+		},
+		[setIdentity],
+	);
+
+	// Pin the key of a peer whose device identity changed or whose name we
+	// know from another device, after the user made sure it's really them.
+	// A sender we connect to becomes usable once trusted.
+	const trustDeviceKey = useCallback(
+		(peerId: string) => {
+			const { senderConnection, knownDevices } = usePeerStore.getState();
+			const device =
+				senderConnection?.peer === peerId
+					? senderDevice
+					: connectedPeers.find((peer) => peer.id === peerId)?.device;
+			if (!device) return;
+
+			rememberDevices([pinDevice(knownDevices, device)]);
+			const trusted: DeviceTrust = {
+				...device,
+				status: "known",
+				previousFingerprint: undefined,
+				isNameTaken: undefined,
+			};
+			if (senderConnection?.peer === peerId) {
+				setSenderDevice(trusted);
+				receiverVerificationRef.current.isDeviceTrusted = true;
+				finishReceiverVerification(senderConnection);
+			}
+			setConnectedPeers((prev) =>
+				prev.map((peer) =>
+					peer.id === peerId ? { ...peer, device: trusted } : peer,
+				),
+			);
+		},
+		[senderDevice, connectedPeers, rememberDevices, finishReceiverVerification],
+	);
+
+	// Current state of our connections for the diagnostics panel
+	const getDiagnostics = useCallback(async (): Promise<DiagnosticsSnapshot> => {
+		const peer = peerRef.current;
+		const { senderConnection } = usePeerStore.getState();
+		const connections = senderConnection
+			? [senderConnection]
+			: connectedPeers.map((p) => p.connection);
+
+		return {
+			peerId,
+			signallingState:
+				!peer || peer.destroyed
+					? "closed"
+					: peer.disconnected
+						? "disconnected"
+						: "connected",
+			lastError: diagnosticsLog.getLastError(),
+			connections: await Promise.all(connections.map(getConnectionStats)),
+			events: diagnosticsLog.getEvents(),
+		};
+	}, [peerId, connectedPeers, diagnosticsLog]);
+
+	const removeFile = useCallback(
+		(fileId: string) => {
+			scheduler.cancelFile(fileId);
+			setSharedFiles((prev) => {
+				const updatedFiles = prev.filter((sf) => sf.id !== fileId);
+
+				// Broadcast updated file list to all approved receivers
+				const fileManifest = toFileManifest(updatedFiles);
+
+				setConnectedPeers((currentPeers) => {
+					currentPeers.filter(canAccessFiles).forEach((peer) => {
+						sendMessage(peer.connection, {
+							type: "FILES_UPDATE",
+							files: fileManifest,
+						});
+					});
+					// Receivers stop downloading a withdrawn file
+					return currentPeers.map((peer) => ({
+						...peer,
+						uploads: peer.uploads.filter((u) => u.fileId !== fileId),
+					}));
+				});
+
+				return updatedFiles;
+			});
+		},
+		[scheduler],
+	);
+
 	return {
 		peerId,
+		keyFingerprint,
 		isSender,
 		sharedFiles,
 		connectedPeers,
 		receivedFiles,
+		snippets,
+		receivedSnippets,
+		chatMessages,
+		offeredFiles,
 		downloadProgress,
+		integrityStatus,
+		pausedDownloads,
+		downloadStats,
+		sessionSummary,
 		isConnected,
 		connectionStatus,
+		connectionError,
+		safetyWords,
+		isSenderConfirmed,
+		senderDevice,
+		identity,
+		knownDevices,
+		setIdentityEnabled,
+		trustDeviceKey,
+		rememberDevices,
+		forgetDevice,
 		addFiles,
+		addSnippet,
+		removeSnippet,
+		sendChatMessage,
 		connectToSender,
 		requestFile,
+		requestFolder,
+		downloadArchive,
+		pauseDownload,
+		resumeDownload,
+		cancelDownload,
+		acceptUpload,
+		offerFiles,
+		withdrawOfferedFile,
 		removeFile,
 		removePeer,
+		transferQueue,
+		prioritizeTransfer: scheduler.prioritize,
+		pauseTransfer,
+		resumeTransfer,
+		cancelTransfer,
+		transferLimits,
+		setTransferLimits,
+		serverConfig,
+		setServerConfig,
+		getDiagnostics,
+		approvePeer,
+		rejectPeer,
+		requireApproval,
+		setRequireApproval,
+		sharePin,
+		setSharePin,
+		pinFailures,
+		isPinLocked,
+		submitPin,
+		pinAttemptsLeft,
+		confirmPeer,
+		confirmSender,
 	};
 }
@@ -0,0 +1,41 @@
+import { bytesToUtf8, concatBytes, utf8ToBytes } from "@noble/hashes/utils";
+
+// Binary-safe encoding for messages sealed in an envelope. JSON can't hold
+// the ArrayBuffers some messages carry, so they're appended after the JSON
+// header, which refers to them by offset and length.
+
+const BINARY_KEY = "$binary";
+
+export function encodeMessage(message: unknown): Uint8Array {
+	const blobs: Uint8Array[] = [];
+	let blobsLength = 0;
+	const header = utf8ToBytes(
+		JSON.stringify(message, (_key, value) => {
+			if (!(value instanceof ArrayBuffer)) return value;
+			const reference = { [BINARY_KEY]: [blobsLength, value.byteLength] };
+			blobs.push(new Uint8Array(value));
+			blobsLength += value.byteLength;
+			return reference;
+		}),
+	);
+
+	const headerLength = new Uint8Array(4);
+	new DataView(headerLength.buffer).setUint32(0, header.length);
+	return concatBytes(headerLength, header, ...blobs);
+}
+
+// Read a message made by encodeMessage. Throws if it isn't one.
+export function decodeMessage(bytes: Uint8Array): unknown {
+	const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+	const headerLength = view.getUint32(0);
+	const header = bytes.subarray(4, 4 + headerLength);
+	const blobs = bytes.subarray(4 + headerLength);
+
+	return JSON.parse(bytesToUtf8(header), (_key, value) => {
+		if (typeof value !== "object" || value === null || !(BINARY_KEY in value)) {
+			return value;
+		}
+		const [offset, length] = value[BINARY_KEY];
+		return blobs.slice(offset, offset + length).buffer;
+	});
+}
@@ -1,13 +1,17 @@
 import { gcm } from "@noble/ciphers/aes";
-import { secp256k1 } from "@noble/curves/secp256k1";
-import { hkdf } from "@noble/hashes/hkdf";
+import { hashToCurve, secp256k1 } from "@noble/curves/secp256k1";
+import { bytesToNumberBE, equalBytes } from "@noble/curves/utils";
+import { expand, extract } from "@noble/hashes/hkdf";
+import { hmac } from "@noble/hashes/hmac";
 import { sha256 } from "@noble/hashes/sha2";
 import {
 	bytesToHex,
 	bytesToUtf8,
+	concatBytes,
 	hexToBytes,
 	utf8ToBytes,
 } from "@noble/hashes/utils";
+import { adjectives, animals } from "unique-names-generator";
 
 // Crypto utilities for secure P2P communication using Noble libraries
 export interface KeyPair {
@@ -20,11 +24,58 @@ export interface EncryptedData {
 	iv: ArrayBuffer;
 }
 
+// The public keys one side of a connection presents during key exchange
+export interface PublicKeySet {
+	dhPublicKey: Uint8Array;
+	signingPublicKey: Uint8Array;
+}
+
+// One side of a CPace password-authenticated key exchange
+export interface PakeState {
+	scalar: bigint;
+	share: Uint8Array; // Sent to the peer
+	sid: Uint8Array; // Binds the exchange to both peer IDs
+}
+
+// Which side of the connection a handshake message comes from
+export type HandshakeRole = "sender" | "receiver";
+
+// Everything both sides agreed on during the handshake. The session keys are
+// bound to it, so a substituted key or peer ID yields different keys, and
+// the nonces make them fresh on every connection between the same key pairs.
+export interface HandshakeTranscript {
+	senderId: string;
+	receiverId: string;
+	senderKeys: PublicKeySet;
+	receiverKeys: PublicKeySet;
+	senderNonce: Uint8Array;
+	receiverNonce: Uint8Array;
+}
+
+// One connection's keys, seen from our side of it
+export interface SessionKeys {
+	sendKey: Uint8Array; // Encrypts what we send
+	receiveKey: Uint8Array; // Decrypts what the peer sends
+	confirmationKey: Uint8Array; // Proves both sides derived the same keys
+}
+
 export interface ConnectionChallenge {
 	challenge: ArrayBuffer;
 	signature: ArrayBuffer;
 }
 
+// Nonce counters for one direction of a session. The peer's messages may
+// arrive out of order, so the counters skipped so far are remembered until
+// they show up.
+export interface NonceCounters {
+	sent: number; // Next counter we send
+	nextReceived: number; // One past the highest counter received
+	missingReceived: Set<number>;
+}
+
+// Incremental SHA-256 state for hashing a file chunk by chunk
+export type Hasher = ReturnType<typeof sha256.create>;
+
 // Generate ECDH-compatible key pair for key exchange
 export function generateKeyPair(): KeyPair {
 	const privateKey = secp256k1.utils.randomPrivateKey();
@@ -49,14 +100,128 @@ export function importPublicKey(keyData: ArrayBuffer): Uint8Array {
 	return new Uint8Array(keyData);
 }
 
-// Derive shared AES key from our private key and peer's public key
-export function deriveSharedKey(
+// Hash the handshake transcript. Every field is length-prefixed so no two
+// different transcripts hash the same bytes.
+export function hashTranscript(transcript: HandshakeTranscript): Uint8Array {
+	const fields = [
+		utf8ToBytes(transcript.senderId),
+		utf8ToBytes(transcript.receiverId),
+		transcript.senderKeys.dhPublicKey,
+		transcript.senderKeys.signingPublicKey,
+		transcript.receiverKeys.dhPublicKey,
+		transcript.receiverKeys.signingPublicKey,
+		transcript.senderNonce,
+		transcript.receiverNonce,
+	];
+	const hasher = sha256.create().update(utf8ToBytes("dropshare-handshake-v1"));
+	for (const field of fields) {
+		const length = new Uint8Array(4);
+		new DataView(length.buffer).setUint32(0, field.length);
+		hasher.update(length).update(field);
+	}
+	return hasher.digest();
+}
+
+// Derive the session keys from our private key and the peer's public key,
+// mixing in the PIN-derived key when the share is PIN protected. The
+// transcript hash salts HKDF, and each direction gets its own AES key.
+export function deriveSessionKeys(
 	privateKey: Uint8Array,
 	peerPublicKey: Uint8Array,
-): Uint8Array {
+	transcript: HandshakeTranscript,
+	role: HandshakeRole,
+	pakeKey?: Uint8Array,
+): SessionKeys {
 	const sharedPoint = secp256k1.getSharedSecret(privateKey, peerPublicKey);
-	// Use HKDF to derive a 32-byte key from the shared secret
-	return hkdf(sha256, sharedPoint, undefined, "dropshare", 32);
+	const secret = pakeKey ? concatBytes(sharedPoint, pakeKey) : sharedPoint;
+	const prk = extract(sha256, secret, hashTranscript(transcript));
+	const senderKey = expand(sha256, prk, "dropshare sender to receiver", 32);
+	const receiverKey = expand(sha256, prk, "dropshare receiver to sender", 32);
+	return {
+		sendKey: role === "sender" ? senderKey : receiverKey,
+		receiveKey: role === "sender" ? receiverKey : senderKey,
+		confirmationKey: expand(sha256, prk, "dropshare key confirmation", 32),
+	};
+}
+
+// Prove we derived the same session keys without revealing them
+export function getKeyConfirmation(
+	keys: SessionKeys,
+	role: HandshakeRole,
+): Uint8Array {
+	return hmac(
+		sha256,
+		keys.confirmationKey,
+		utf8ToBytes(`dropshare-keys-${role}`),
+	);
+}
+
+// Check the peer's confirmation against our session keys
+export function verifyKeyConfirmation(
+	keys: SessionKeys,
+	role: HandshakeRole,
+	confirmation: Uint8Array,
+): boolean {
+	return equalBytes(getKeyConfirmation(keys, role), confirmation);
+}
+
+// Start a CPace exchange for a PIN. Both sides derive the same secret
+// generator from the PIN and the two peer IDs, so a share reveals nothing
+// that would let an eavesdropper test PIN guesses offline.
+export function startPake(
+	pin: string,
+	senderId: string,
+	receiverId: string,
+): PakeState {
+	const sid = sha256(utf8ToBytes(`${senderId}\0${receiverId}`));
+	const generator = hashToCurve(concatBytes(utf8ToBytes(pin.trim()), sid), {
+		DST: "dropshare-cpace-secp256k1",
+	});
+	const scalar = bytesToNumberBE(secp256k1.utils.randomPrivateKey());
+	const share = secp256k1.ProjectivePoint.fromAffine(
+		generator.multiply(scalar).toAffine(),
+	).toRawBytes(true);
+	return { scalar, share, sid };
+}
+
+// Combine our state with the peer's share into the PIN-derived key.
+// Throws if the peer's share is not a valid point.
+export function finishPake(
+	state: PakeState,
+	peerShare: Uint8Array,
+	role: HandshakeRole,
+): Uint8Array {
+	const peerPoint = secp256k1.ProjectivePoint.fromHex(peerShare);
+	const sharedPoint = peerPoint.multiply(state.scalar).toRawBytes(true);
+	// Order the transcript as sender share, then receiver share
+	const [senderShare, receiverShare] =
+		role === "sender" ? [state.share, peerShare] : [peerShare, state.share];
+	return sha256(
+		concatBytes(
+			utf8ToBytes("dropshare-cpace-isk"),
+			state.sid,
+			sharedPoint,
+			senderShare,
+			receiverShare,
+		),
+	);
+}
+
+// Prove knowledge of the PIN-derived key without revealing it
+export function getPakeConfirmation(
+	pakeKey: Uint8Array,
+	role: HandshakeRole,
+): Uint8Array {
+	return hmac(sha256, pakeKey, utf8ToBytes(`dropshare-confirm-${role}`));
+}
+
+// Check the peer's confirmation against our PIN-derived key
+export function verifyPakeConfirmation(
+	pakeKey: Uint8Array,
+	role: HandshakeRole,
+	confirmation: Uint8Array,
+): boolean {
+	return equalBytes(getPakeConfirmation(pakeKey, role), confirmation);
 }
 
 // Encrypt data using AES-GCM
@@ -84,11 +249,141 @@ export async function decryptData(
 	return decryptedData.buffer;
 }
 
+// Associated data for sealed messages, tying them to this protocol version
+const ENVELOPE_AAD = utf8ToBytes("dropshare-envelope-v1");
+
+// Seal an encoded message under a counter nonce. Synchronous, unlike
+// encryptData, so sealed messages go out in the order they were sent.
+export function sealEnvelope(
+	plaintext: Uint8Array,
+	key: Uint8Array,
+	nonce: Uint8Array,
+): Uint8Array {
+	return gcm(key, nonce, ENVELOPE_AAD).encrypt(plaintext);
+}
+
+// Open a sealed message. Throws if it was tampered with.
+export function openEnvelope(
+	ciphertext: Uint8Array,
+	key: Uint8Array,
+	nonce: Uint8Array,
+): Uint8Array {
+	return gcm(key, nonce, ENVELOPE_AAD).decrypt(ciphertext);
+}
+
+export function createNonceCounters(): NonceCounters {
+	return { sent: 0, nextReceived: 0, missingReceived: new Set() };
+}
+
+// Deterministic 96-bit GCM nonce: 32 zero bits, then a 64-bit counter. Each
+// direction of a session has its own key, so counters never repeat a nonce.
+export function getCounterNonce(counter: number): Uint8Array {
+	const nonce = new Uint8Array(12);
+	new DataView(nonce.buffer).setBigUint64(4, BigInt(counter));
+	return nonce;
+}
+
+// Read the counter back from a nonce, or null if it isn't a counter nonce
+export function readCounterNonce(nonce: Uint8Array): number | null {
+	if (nonce.length !== 12) return null;
+	const view = new DataView(nonce.buffer, nonce.byteOffset, nonce.byteLength);
+	if (view.getUint32(0) !== 0) return null;
+	const counter = view.getBigUint64(4);
+	return counter <= BigInt(Number.MAX_SAFE_INTEGER) ? Number(counter) : null;
+}
+
+// Most counters that may be skipped at once while messages are reordered
+const MAX_NONCE_GAP = 4096;
+
+// Record a counter the peer used, after its message was authenticated.
+// Returns false if the counter was already used, so the message is a replay.
+export function acceptNonceCounter(
+	counters: NonceCounters,
+	counter: number,
+): boolean {
+	if (counter < counters.nextReceived) {
+		return counters.missingReceived.delete(counter);
+	}
+	if (counter - counters.nextReceived > MAX_NONCE_GAP) return false;
+
+	for (let skipped = counters.nextReceived; skipped < counter; skipped++) {
+		counters.missingReceived.add(skipped);
+	}
+	counters.nextReceived = counter + 1;
+	return true;
+}
+
+// Start an incremental SHA-256 hash
+export function createHasher(): Hasher {
+	return sha256.create();
+}
+
+// Hash a whole file without loading it into memory at once
+export async function hashFile(file: Blob): Promise<string> {
+	const hasher = createHasher();
+	const reader = file.stream().getReader();
+	for (;;) {
+		const { done, value } = await reader.read();
+		if (done) break;
+		hasher.update(value);
+	}
+	return digestToHex(hasher);
+}
+
+// Finish an incremental hash as a hex string
+export function digestToHex(hasher: Hasher): string {
+	return bytesToHex(hasher.digest());
+}
+
+// Short fingerprint of a peer's public keys, compact enough for a QR code link
+export function getKeyFingerprint(keys: PublicKeySet): string {
+	const hash = sha256(concatBytes(keys.signingPublicKey, keys.dhPublicKey));
+	return bytesToHex(hash.slice(0, 16));
+}
+
+// Fingerprint of a long-term signing key, pinned for known devices
+export function getIdentityFingerprint(signingPublicKey: Uint8Array): string {
+	return bytesToHex(sha256(signingPublicKey).slice(0, 16));
+}
+
+// Derive short safety words from both sides' public keys. Both peers get the
+// same words only if neither set of keys was substituted in transit, so users
+// can compare them out loud to rule out a man-in-the-middle.
+export function deriveSafetyWords(
+	ourKeys: PublicKeySet,
+	peerKeys: PublicKeySet,
+): string[] {
+	// Order the key sets canonically so both sides hash the same bytes
+	const keySets = [ourKeys, peerKeys]
+		.map((keys) => concatBytes(keys.dhPublicKey, keys.signingPublicKey))
+		.sort((a, b) => bytesToHex(a).localeCompare(bytesToHex(b)));
+	const hash = sha256(
+		concatBytes(utf8ToBytes("dropshare-safety-words"), ...keySets),
+	);
+
+	// Alternate adjectives and animals, four 32-bit indices in total
+	const view = new DataView(hash.buffer, hash.byteOffset, hash.byteLength);
+	return [adjectives, animals, adjectives, animals].map((dictionary, i) => {
+		const word = dictionary[view.getUint32(i * 4) % dictionary.length];
+		return word.charAt(0).toUpperCase() + word.slice(1);
+	});
+}
+
 // Generate a random challenge for connection verification
 export function generateChallenge(): ArrayBuffer {
 	return crypto.getRandomValues(new Uint8Array(32)).buffer;
 }
 
+// Random value each side contributes to the handshake transcript
+export function generateHandshakeNonce(): Uint8Array {
+	return crypto.getRandomValues(new Uint8Array(32));
+}
+
+// Random token a receiver presents to resume its session after reconnecting
+export function generateSessionToken(): string {
+	return bytesToHex(crypto.getRandomValues(new Uint8Array(16)));
+}
+
 // Sign a challenge with private key
 export async function signChallenge(
 	challenge: ArrayBuffer,
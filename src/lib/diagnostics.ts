@@ -0,0 +1,266 @@
+import type { DataConnection } from "peerjs";
+import type { ServerConfig } from "@/lib/servers";
+
+// Connection diagnostics: a log of what went over each connection (message
+// types only, never their contents), PeerJS errors, and ICE statistics read
+// from the underlying RTCPeerConnection. Reports exported for bug tickets
+// have peer IDs, addresses and credentials redacted.
+
+export type DiagnosticsEventKind = "sent" | "received" | "error" | "state";
+
+export interface DiagnosticsEvent {
+	at: number; // Date.now() of the latest occurrence
+	kind: DiagnosticsEventKind;
+	peerId: string | null; // null for events of our own peer
+	type: string; // Message type, error type or new state
+	detail?: string;
+	count: number; // Repeats in a row are merged, e.g. file chunks
+}
+
+export interface DiagnosticsLog {
+	add: (event: Omit<DiagnosticsEvent, "at" | "count">) => void;
+	getEvents: () => DiagnosticsEvent[];
+	getLastError: () => DiagnosticsEvent | null;
+}
+
+export interface CandidateInfo {
+	type: string; // host, srflx, prflx or relay
+	protocol: string;
+	address?: string;
+	port?: number;
+}
+
+export interface CandidatePairInfo {
+	state: string;
+	isSelected: boolean;
+	local: CandidateInfo;
+	remote: CandidateInfo;
+	rttMs: number | null;
+	bytesSent: number;
+	bytesReceived: number;
+}
+
+export interface ConnectionStats {
+	peerId: string;
+	connectionState: string;
+	iceConnectionState: string;
+	dataChannelState: string;
+	candidatePairs: CandidatePairInfo[];
+}
+
+export interface DiagnosticsSnapshot {
+	peerId: string | null;
+	signallingState: "connected" | "disconnected" | "closed";
+	lastError: DiagnosticsEvent | null;
+	connections: ConnectionStats[];
+	events: DiagnosticsEvent[];
+}
+
+const MAX_EVENTS = 200;
+
+const UNKNOWN_CANDIDATE: CandidateInfo = { type: "unknown", protocol: "" };
+
+export function createDiagnosticsLog(): DiagnosticsLog {
+	let events: DiagnosticsEvent[] = [];
+	let lastError: DiagnosticsEvent | null = null;
+
+	return {
+		add: (event) => {
+			const at = Date.now();
+			const last = events[events.length - 1];
+			if (
+				last &&
+				last.kind === event.kind &&
+				last.peerId === event.peerId &&
+				last.type === event.type &&
+				last.detail === event.detail
+			) {
+				events = [
+					...events.slice(0, -1),
+					{ ...last, at, count: last.count + 1 },
+				];
+			} else {
+				events = [...events, { ...event, at, count: 1 }].slice(-MAX_EVENTS);
+			}
+			if (event.kind === "error") lastError = events[events.length - 1];
+		},
+		getEvents: () => events,
+		getLastError: () => lastError,
+	};
+}
+
+// Logs of traced connections, by connection
+const logsByConnection = new WeakMap<DataConnection, DiagnosticsLog>();
+
+// Log the errors and ICE state changes of a connection, and keep its log
+// for traceMessage
+export function traceConnection(conn: DataConnection, log: DiagnosticsLog) {
+	logsByConnection.set(conn, log);
+
+	conn.on("iceStateChanged", (state) => {
+		log.add({ kind: "state", peerId: conn.peer, type: `ice ${state}` });
+	});
+	conn.on("close", () => {
+		log.add({ kind: "state", peerId: conn.peer, type: "closed" });
+	});
+	conn.on("error", (error) => {
+		log.add({
+			kind: "error",
+			peerId: conn.peer,
+			type: error.type,
+			detail: error.message,
+		});
+	});
+}
+
+// Log the type of a message sent or received over a traced connection. This
+// is called with the message itself rather than the frame it travels in, as
+// sealed frames all look the same.
+export function traceMessage(
+	conn: DataConnection,
+	kind: "sent" | "received",
+	type: string,
+) {
+	logsByConnection.get(conn)?.add({ kind, peerId: conn.peer, type });
+}
+
+function toCandidateInfo(stats: RTCStats | undefined): CandidateInfo {
+	if (!stats) return UNKNOWN_CANDIDATE;
+	const candidate = stats as RTCStats & {
+		candidateType?: string;
+		protocol?: string;
+		address?: string;
+		port?: number;
+	};
+	return {
+		type: candidate.candidateType ?? "unknown",
+		protocol: candidate.protocol ?? "",
+		address: candidate.address,
+		port: candidate.port,
+	};
+}
+
+// Read the ICE candidate pairs and channel state of a connection
+export async function getConnectionStats(
+	conn: DataConnection,
+): Promise<ConnectionStats> {
+	const peerConnection = conn.peerConnection as RTCPeerConnection | undefined;
+	const candidatePairs: CandidatePairInfo[] = [];
+
+	if (peerConnection) {
+		const report = await peerConnection.getStats();
+		let selectedPairId: string | undefined;
+		report.forEach((stats) => {
+			if (stats.type === "transport") {
+				selectedPairId ??= (stats as RTCTransportStats).selectedCandidatePairId;
+			}
+		});
+
+		report.forEach((stats) => {
+			if (stats.type !== "candidate-pair") return;
+			const pair = stats as RTCIceCandidatePairStats;
+			candidatePairs.push({
+				state: pair.state,
+				// Firefox reports no transport, but marks the pair instead
+				isSelected:
+					pair.id === selectedPairId ||
+					(selectedPairId === undefined &&
+						(pair as RTCIceCandidatePairStats & { selected?: boolean })
+							.selected === true),
+				local: toCandidateInfo(report.get(pair.localCandidateId)),
+				remote: toCandidateInfo(report.get(pair.remoteCandidateId)),
+				rttMs:
+					pair.currentRoundTripTime !== undefined
+						? Math.round(pair.currentRoundTripTime * 1000)
+						: null,
+				bytesSent: pair.bytesSent ?? 0,
+				bytesReceived: pair.bytesReceived ?? 0,
+			});
+		});
+	}
+
+	// Selected pair first, then the ones still in use
+	candidatePairs.sort(
+		(a, b) =>
+			Number(b.isSelected) - Number(a.isSelected) ||
+			Number(b.state === "succeeded") - Number(a.state === "succeeded"),
+	);
+
+	return {
+		peerId: conn.peer,
+		connectionState: peerConnection?.connectionState ?? "unknown",
+		iceConnectionState: peerConnection?.iceConnectionState ?? "unknown",
+		dataChannelState: conn.dataChannel?.readyState ?? "unknown",
+		candidatePairs,
+	};
+}
+
+// JSON report safe to attach to a public bug ticket. Peer IDs become
+// aliases, and addresses, keys and TURN credentials are left out.
+export function createDiagnosticsReport(
+	snapshot: DiagnosticsSnapshot,
+	serverConfig: ServerConfig,
+): string {
+	const aliases = new Map<string, string>();
+	if (snapshot.peerId) aliases.set(snapshot.peerId, "self");
+	const alias = (peerId: string | null) => {
+		if (peerId === null) return "self";
+		if (!aliases.has(peerId)) aliases.set(peerId, `peer-${aliases.size}`);
+		return aliases.get(peerId) as string;
+	};
+	for (const conn of snapshot.connections) alias(conn.peerId);
+	for (const event of snapshot.events) alias(event.peerId);
+
+	// Error messages can quote peer IDs and addresses
+	const redactText = (text: string | undefined) => {
+		if (text === undefined) return undefined;
+		let redacted = text;
+		for (const [peerId, name] of aliases) {
+			redacted = redacted.split(peerId).join(name);
+		}
+		return redacted
+			.replace(/\b\d{1,3}(\.\d{1,3}){3}\b/g, "[ip]")
+			.replace(/\b[0-9a-f]{0,4}(:[0-9a-f]{0,4}){2,7}\b/gi, "[ip]");
+	};
+	const redactCandidate = ({ type, protocol }: CandidateInfo) => ({
+		type,
+		protocol,
+	});
+	const redactEvent = (event: DiagnosticsEvent) => ({
+		...event,
+		at: new Date(event.at).toISOString(),
+		peerId: alias(event.peerId),
+		detail: redactText(event.detail),
+	});
+
+	const report = {
+		generatedAt: new Date().toISOString(),
+		userAgent: navigator.userAgent,
+		servers: {
+			peerServer: serverConfig.peerServer
+				? {
+						host: serverConfig.peerServer.host,
+						port: serverConfig.peerServer.port,
+						path: serverConfig.peerServer.path,
+						secure: serverConfig.peerServer.secure,
+					}
+				: "PeerJS cloud",
+			stunUrls: serverConfig.stunUrls,
+			turnUrls: serverConfig.turn?.urls ?? [],
+		},
+		signallingState: snapshot.signallingState,
+		lastError: snapshot.lastError && redactEvent(snapshot.lastError),
+		connections: snapshot.connections.map((conn) => ({
+			...conn,
+			peerId: alias(conn.peerId),
+			candidatePairs: conn.candidatePairs.map((pair) => ({
+				...pair,
+				local: redactCandidate(pair.local),
+				remote: redactCandidate(pair.remote),
+			})),
+		})),
+		events: snapshot.events.map(redactEvent),
+	};
+
+	return JSON.stringify(report, null, 2);
+}
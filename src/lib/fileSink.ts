@@ -0,0 +1,191 @@
+// Destinations that received files are streamed into chunk by chunk, so a
+// download never has to fit in memory as a whole
+export interface FileSink {
+	write: (chunk: ArrayBuffer) => Promise<void>;
+	close: () => Promise<void>;
+	abort: () => Promise<void>;
+}
+
+// File System Access API, not yet part of the TypeScript DOM typings
+type SaveFilePicker = (options?: {
+	suggestedName?: string;
+}) => Promise<FileSystemFileHandle>;
+type DirectoryPicker = (options?: {
+	mode?: "read" | "readwrite";
+}) => Promise<FileSystemDirectoryHandle>;
+
+const DOWNLOAD_WORKER_URL = `${import.meta.env.BASE_URL}download-sw.js`;
+
+// Keeps the service worker alive while a download is streaming through it
+const KEEP_ALIVE_INTERVAL = 10_000;
+
+// Create the best available sink for a file. Must be called from a user
+// gesture, since the save file picker requires transient activation.
+// Rejects with an `AbortError` if the user dismisses the picker.
+export async function createFileSink(
+	name: string,
+	size: number,
+): Promise<FileSink> {
+	const showSaveFilePicker = (
+		window as Window & { showSaveFilePicker?: SaveFilePicker }
+	).showSaveFilePicker;
+
+	if (showSaveFilePicker) {
+		const handle = await showSaveFilePicker({ suggestedName: name });
+		return createFileSystemSink(handle);
+	}
+
+	if ("serviceWorker" in navigator && window.isSecureContext) {
+		try {
+			return await createServiceWorkerSink(name, size);
+		} catch (error) {
+			console.warn("Streaming download unavailable:", error);
+		}
+	}
+
+	return createBlobSink(name);
+}
+
+// Let the user choose a folder to save into, or null if the browser can't
+// write to folders. Must be called from a user gesture. Rejects with an
+// `AbortError` if the user dismisses the picker.
+export async function pickDirectory(): Promise<FileSystemDirectoryHandle | null> {
+	const showDirectoryPicker = (
+		window as Window & { showDirectoryPicker?: DirectoryPicker }
+	).showDirectoryPicker;
+	if (!showDirectoryPicker) return null;
+
+	return showDirectoryPicker({ mode: "readwrite" });
+}
+
+// Create a file at a relative path inside a picked folder, creating any
+// missing subfolders on the way
+export async function createDirectoryFileSink(
+	directory: FileSystemDirectoryHandle,
+	segments: string[],
+): Promise<FileSink> {
+	let parent = directory;
+	for (const name of segments.slice(0, -1)) {
+		parent = await parent.getDirectoryHandle(name, { create: true });
+	}
+
+	const handle = await parent.getFileHandle(segments[segments.length - 1], {
+		create: true,
+	});
+	return createFileSystemSink(handle);
+}
+
+// Write straight into a file chosen by the user
+async function createFileSystemSink(
+	handle: FileSystemFileHandle,
+): Promise<FileSink> {
+	const writable = await handle.createWritable();
+
+	return {
+		write: (chunk) => writable.write(chunk),
+		close: () => writable.close(),
+		abort: () => writable.abort(),
+	};
+}
+
+// Stream through a service worker that answers a download navigation with a
+// response body fed from this page
+async function createServiceWorkerSink(
+	name: string,
+	size: number,
+): Promise<FileSink> {
+	await navigator.serviceWorker.register(DOWNLOAD_WORKER_URL);
+	const registration = await navigator.serviceWorker.ready;
+	const worker = registration.active;
+	if (!worker) {
+		throw new Error("Download service worker is not active");
+	}
+
+	const url = new URL(
+		`download/${crypto.randomUUID()}`,
+		registration.scope,
+	).toString();
+	const channel = new MessageChannel();
+
+	// Wait for the worker to register the download before navigating to it
+	await new Promise<void>((resolve) => {
+		channel.port1.onmessage = () => resolve();
+		worker.postMessage({ type: "CREATE_DOWNLOAD", url, name, size }, [
+			channel.port2,
+		]);
+	});
+
+	// The write waiting for the worker to take its chunk. Writes are awaited
+	// one at a time, so there's at most one.
+	let pendingWrite: {
+		resolve: () => void;
+		reject: (error: Error) => void;
+	} | null = null;
+	let isCancelled = false;
+	channel.port1.onmessage = ({ data }) => {
+		if (data.type === "CANCELLED") {
+			isCancelled = true;
+			pendingWrite?.reject(new Error("Download cancelled"));
+		} else {
+			pendingWrite?.resolve();
+		}
+		pendingWrite = null;
+	};
+
+	const iframe = document.createElement("iframe");
+	iframe.hidden = true;
+	iframe.src = url;
+	document.body.appendChild(iframe);
+
+	const keepAlive = setInterval(() => {
+		worker.postMessage({ type: "KEEP_ALIVE" });
+	}, KEEP_ALIVE_INTERVAL);
+
+	const finish = (message: { type: "END" | "ABORT" }) => {
+		clearInterval(keepAlive);
+		channel.port1.postMessage(message);
+		channel.port1.close();
+		// Give the browser a moment to pick up the end of the stream
+		setTimeout(() => iframe.remove(), 1000);
+	};
+
+	return {
+		write: (chunk) =>
+			new Promise((resolve, reject) => {
+				if (isCancelled) {
+					reject(new Error("Download cancelled"));
+					return;
+				}
+				pendingWrite = { resolve, reject };
+				channel.port1.postMessage({ type: "CHUNK", data: chunk }, [chunk]);
+			}),
+		close: async () => finish({ type: "END" }),
+		abort: async () => finish({ type: "ABORT" }),
+	};
+}
+
+// Last resort: collect the file in memory and save it once complete
+function createBlobSink(name: string): FileSink {
+	let chunks: ArrayBuffer[] = [];
+
+	return {
+		write: async (chunk) => {
+			chunks.push(chunk);
+		},
+		close: async () => {
+			const completeFile = new Blob(chunks);
+			const url = URL.createObjectURL(completeFile);
+			const a = document.createElement("a");
+			a.href = url;
+			a.download = name;
+			document.body.appendChild(a); // Append for browser compatibility
+			a.click();
+			URL.revokeObjectURL(url);
+			a.remove();
+			chunks = [];
+		},
+		abort: async () => {
+			chunks = [];
+		},
+	};
+}
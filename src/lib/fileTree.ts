@@ -0,0 +1,85 @@
+// Folder structure of a shared file list, rebuilt from each file's relative
+// path such as "project/src/index.ts"
+export interface FileTreeFolder<T> {
+	name: string;
+	path: string;
+	folders: FileTreeFolder<T>[];
+	files: T[];
+}
+
+interface TreeEntry {
+	name: string;
+	path?: string;
+}
+
+// Relative path of a file that came from a folder drop or folder picker, or
+// undefined for a file selected on its own
+export function getRelativePath(file: File): string | undefined {
+	// react-dropzone adds `relativePath` for drops, the folder picker sets
+	// `webkitRelativePath`
+	const path =
+		file.webkitRelativePath ||
+		(file as File & { relativePath?: string }).relativePath ||
+		"";
+	const segments = getPathSegments(path);
+	return segments && segments.length > 1 ? segments.join("/") : undefined;
+}
+
+// Split a relative path into its segments, or null if it could escape the
+// folder it is written into
+export function getPathSegments(path: string): string[] | null {
+	const segments = path.split("/").filter((s) => s !== "" && s !== ".");
+	if (segments.some((s) => s === ".." || s.includes("\\"))) {
+		return null;
+	}
+	return segments;
+}
+
+// The last usable segment of a file name from a peer, which may contain
+// slashes or backslashes, so it can't point outside the folder it's saved in
+export function getSafeFileName(name: string): string {
+	const segments = name
+		.split(/[/\\]/)
+		.filter((s) => s !== "" && s !== "." && s !== "..");
+	return segments.at(-1) ?? "file";
+}
+
+// Group files into nested folders. Files without a usable path stay at the root.
+export function buildFileTree<T extends TreeEntry>(
+	files: T[],
+): FileTreeFolder<T> {
+	const root: FileTreeFolder<T> = {
+		name: "",
+		path: "",
+		folders: [],
+		files: [],
+	};
+
+	for (const file of files) {
+		const segments = file.path ? getPathSegments(file.path) : null;
+		let folder = root;
+
+		for (const name of segments?.slice(0, -1) ?? []) {
+			let child = folder.folders.find((f) => f.name === name);
+			if (!child) {
+				child = {
+					name,
+					path: folder.path ? `${folder.path}/${name}` : name,
+					folders: [],
+					files: [],
+				};
+				folder.folders.push(child);
+			}
+			folder = child;
+		}
+
+		folder.files.push(file);
+	}
+
+	return root;
+}
+
+// Every file inside a folder, including its subfolders
+export function getFolderFiles<T>(folder: FileTreeFolder<T>): T[] {
+	return [...folder.files, ...folder.folders.flatMap(getFolderFiles)];
+}
@@ -0,0 +1,212 @@
+import type { KeyPair } from "@/lib/crypto";
+
+// Opt-in long-term device identity, and the devices seen before, pinned to
+// the key they first presented (trust on first use, like SSH's
+// known_hosts). Both are kept in IndexedDB.
+
+// This device's identity, advertised during key exchange
+export interface DeviceIdentity {
+	id: string;
+	name: string;
+	signingKeyPair: KeyPair; // Used instead of a fresh key on every visit
+	createdAt: number;
+}
+
+// What a peer says it is, before it proved holding the key
+export interface DeviceInfo {
+	id: string;
+	name: string;
+}
+
+export interface KnownDevice {
+	id: string;
+	name: string;
+	fingerprint: string; // Of the signing key it first presented
+	firstSeen: number;
+	lastSeen: number;
+}
+
+export type DeviceTrustStatus = "new" | "known" | "changed";
+
+// How a verified peer's key compares to the one pinned for its device
+export interface DeviceTrust extends DeviceInfo {
+	fingerprint: string;
+	status: DeviceTrustStatus;
+	previousFingerprint?: string; // The pinned key, when it changed
+	isNameTaken?: boolean; // A new device using the name of a known one
+}
+
+const DB_NAME = "dropshare";
+const DB_VERSION = 1;
+const IDENTITY_STORE = "identity"; // A single record
+const IDENTITY_KEY = "self";
+const KNOWN_DEVICES_STORE = "knownDevices";
+
+const EXPORT_VERSION = 1;
+
+function openDatabase(): Promise<IDBDatabase> {
+	return new Promise((resolve, reject) => {
+		const request = indexedDB.open(DB_NAME, DB_VERSION);
+		request.onupgradeneeded = () => {
+			request.result.createObjectStore(IDENTITY_STORE);
+			request.result.createObjectStore(KNOWN_DEVICES_STORE, { keyPath: "id" });
+		};
+		request.onsuccess = () => resolve(request.result);
+		request.onerror = () => reject(request.error);
+	});
+}
+
+// Run requests against one object store, resolving with the result of the
+// last one once the transaction has completed
+async function withStore<T>(
+	storeName: string,
+	mode: IDBTransactionMode,
+	use: (store: IDBObjectStore) => IDBRequest<T> | undefined,
+): Promise<T | undefined> {
+	const db = await openDatabase();
+	try {
+		return await new Promise((resolve, reject) => {
+			const transaction = db.transaction(storeName, mode);
+			const request = use(transaction.objectStore(storeName));
+			transaction.oncomplete = () => resolve(request?.result);
+			transaction.onerror = () => reject(transaction.error);
+			transaction.onabort = () => reject(transaction.error);
+		});
+	} finally {
+		db.close();
+	}
+}
+
+export async function readIdentity(): Promise<DeviceIdentity | null> {
+	const identity = await withStore<DeviceIdentity>(
+		IDENTITY_STORE,
+		"readonly",
+		(store) => store.get(IDENTITY_KEY),
+	);
+	return identity ?? null;
+}
+
+// Save this device's identity, or forget it with null
+export async function writeIdentity(identity: DeviceIdentity | null) {
+	await withStore(IDENTITY_STORE, "readwrite", (store) => {
+		if (identity) {
+			store.put(identity, IDENTITY_KEY);
+		} else {
+			store.delete(IDENTITY_KEY);
+		}
+		return undefined;
+	});
+}
+
+export async function readKnownDevices(): Promise<KnownDevice[]> {
+	const devices = await withStore<KnownDevice[]>(
+		KNOWN_DEVICES_STORE,
+		"readonly",
+		(store) => store.getAll(),
+	);
+	return devices ?? [];
+}
+
+// Add or replace known devices
+export async function writeKnownDevices(devices: KnownDevice[]) {
+	await withStore(KNOWN_DEVICES_STORE, "readwrite", (store) => {
+		for (const device of devices) store.put(device);
+		return undefined;
+	});
+}
+
+export async function deleteKnownDevice(deviceId: string) {
+	await withStore(KNOWN_DEVICES_STORE, "readwrite", (store) =>
+		store.delete(deviceId),
+	);
+}
+
+export function toDeviceInfo(
+	identity: DeviceIdentity | null,
+): DeviceInfo | undefined {
+	return identity ? { id: identity.id, name: identity.name } : undefined;
+}
+
+// Compare the key a device proved holding with the one pinned for it
+export function checkDeviceTrust(
+	knownDevices: KnownDevice[],
+	device: DeviceInfo,
+	fingerprint: string,
+): DeviceTrust {
+	const known = knownDevices.find((d) => d.id === device.id);
+	if (!known) {
+		const isNameTaken = knownDevices.some((d) => d.name === device.name);
+		return { ...device, fingerprint, status: "new", isNameTaken };
+	}
+	if (known.fingerprint === fingerprint) {
+		return { ...device, fingerprint, status: "known" };
+	}
+	return {
+		...device,
+		fingerprint,
+		status: "changed",
+		previousFingerprint: known.fingerprint,
+	};
+}
+
+// The known device entry pinning a device to the key it presented
+export function pinDevice(
+	knownDevices: KnownDevice[],
+	device: DeviceTrust,
+): KnownDevice {
+	const now = Date.now();
+	return {
+		id: device.id,
+		name: device.name,
+		fingerprint: device.fingerprint,
+		firstSeen: knownDevices.find((d) => d.id === device.id)?.firstSeen ?? now,
+		lastSeen: now,
+	};
+}
+
+// Fingerprint split into groups for reading out, e.g. "3f2a 91c0 ..."
+export function formatFingerprint(fingerprint: string): string {
+	return fingerprint.match(/.{1,4}/g)?.join(" ") ?? fingerprint;
+}
+
+export function exportKnownDevices(devices: KnownDevice[]): string {
+	return JSON.stringify({ version: EXPORT_VERSION, devices }, null, 2);
+}
+
+function isKnownDevice(value: unknown): value is KnownDevice {
+	if (typeof value !== "object" || value === null) return false;
+	const device = value as Record<string, unknown>;
+	return (
+		typeof device.id === "string" &&
+		typeof device.name === "string" &&
+		typeof device.fingerprint === "string" &&
+		/^[0-9a-f]{32}$/.test(device.fingerprint) &&
+		typeof device.firstSeen === "number" &&
+		typeof device.lastSeen === "number"
+	);
+}
+
+// Read a file made by exportKnownDevices, throwing if it isn't one
+export function parseKnownDevices(text: string): KnownDevice[] {
+	let data: unknown;
+	try {
+		data = JSON.parse(text);
+	} catch {
+		throw new Error("The file isn't valid JSON.");
+	}
+
+	const devices =
+		typeof data === "object" && data !== null && "devices" in data
+			? data.devices
+			: undefined;
+	if (!Array.isArray(devices) || !devices.every(isKnownDevice)) {
+		throw new Error("The file isn't a known devices export.");
+	}
+	return devices.map(({ id, name, fingerprint, firstSeen, lastSeen }) => ({
+		id,
+		name,
+		fingerprint,
+		firstSeen,
+		lastSeen,
+	}));
+}
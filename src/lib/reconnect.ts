@@ -0,0 +1,18 @@
+// Backoff for reconnecting to the signalling server and to the sender after
+// a dropped connection
+
+const INITIAL_DELAY = 1000;
+const MAX_DELAY = 30_000;
+
+// Receivers give up on the sender after this many attempts
+export const MAX_RECONNECT_ATTEMPTS = 10;
+
+// An attempt that neither opens nor fails by then counts as failed
+export const RECONNECT_ATTEMPT_TIMEOUT = 15_000;
+
+// Delay before a (zero based) attempt, doubling up to a cap. Jitter keeps
+// receivers that dropped together from retrying in lockstep.
+export function getReconnectDelay(attempt: number): number {
+	const delay = Math.min(MAX_DELAY, INITIAL_DELAY * 2 ** attempt);
+	return delay / 2 + Math.random() * (delay / 2);
+}
@@ -0,0 +1,222 @@
+// Sender-side queue for outgoing file transfers. Limits how many transfers
+// run at once, per peer and overall, starts queued transfers by priority,
+// and hands out chunk sends round-robin across peers so each receiver gets
+// an equal share of the upload regardless of how many files it requested.
+
+export type TransferState = "queued" | "active" | "paused";
+
+export interface ScheduledTransfer {
+	id: string;
+	peerId: string;
+	fileId: string;
+	name: string;
+	size: number;
+	priority: number;
+	state: TransferState;
+}
+
+export interface TransferLimits {
+	perPeer: number;
+	total: number;
+}
+
+export const DEFAULT_TRANSFER_LIMITS: TransferLimits = {
+	perPeer: 2,
+	total: 4,
+};
+
+export interface TransferScheduler {
+	enqueue: (
+		transfer: Pick<ScheduledTransfer, "peerId" | "fileId" | "name" | "size">,
+		run: (signal: AbortSignal) => Promise<void>,
+	) => void;
+	// Run one chunk send for a peer once it is that peer's turn
+	runTurn: <T>(peerId: string, send: () => Promise<T>) => Promise<T>;
+	// Move a queued transfer to the front of the queue
+	prioritize: (transferId: string) => void;
+	// Stop sending a file to a peer but keep it listed until it is requested
+	// again, which replaces the paused entry
+	pause: (peerId: string, fileId: string) => void;
+	// Stop and drop transfers. Running transfers are told through their
+	// abort signal.
+	cancel: (peerId: string, fileId: string) => void;
+	cancelPeer: (peerId: string) => void;
+	cancelFile: (fileId: string) => void;
+	setLimits: (limits: TransferLimits) => void;
+}
+
+interface QueuedTransfer extends ScheduledTransfer {
+	sequence: number;
+	run: (signal: AbortSignal) => Promise<void>;
+	controller: AbortController;
+}
+
+export function createTransferScheduler(
+	onChange: (transfers: ScheduledTransfer[]) => void,
+	initialLimits: TransferLimits = DEFAULT_TRANSFER_LIMITS,
+): TransferScheduler {
+	let limits = initialLimits;
+	let transfers: QueuedTransfer[] = [];
+	let sequence = 0;
+
+	// Peers waiting for a turn, in the order they will be served
+	let rotation: string[] = [];
+	const waitingTurns = new Map<string, (() => void)[]>();
+	let isTurnTaken = false;
+
+	const notify = () => {
+		onChange(
+			transfers.map(({ run, sequence, controller, ...transfer }) => transfer),
+		);
+	};
+
+	const countActive = (peerId?: string) =>
+		transfers.filter(
+			(t) => t.state === "active" && (!peerId || t.peerId === peerId),
+		).length;
+
+	// Highest priority first, then the peer with the fewest running
+	// transfers, then the order they were requested in
+	const pickNext = () => {
+		let next: QueuedTransfer | undefined;
+		for (const transfer of transfers) {
+			if (transfer.state !== "queued") continue;
+			if (countActive(transfer.peerId) >= limits.perPeer) continue;
+			if (
+				!next ||
+				transfer.priority > next.priority ||
+				(transfer.priority === next.priority &&
+					(countActive(transfer.peerId) < countActive(next.peerId) ||
+						(countActive(transfer.peerId) === countActive(next.peerId) &&
+							transfer.sequence < next.sequence)))
+			) {
+				next = transfer;
+			}
+		}
+		return next;
+	};
+
+	const start = (transfer: QueuedTransfer) => {
+		transfer.state = "active";
+		transfer
+			.run(transfer.controller.signal)
+			.catch((error) => {
+				console.error(`Transfer of ${transfer.name} failed:`, error);
+			})
+			.finally(() => {
+				// Paused transfers stay listed so they can be resumed
+				if (transfer.state === "active") {
+					transfers = transfers.filter((t) => t.id !== transfer.id);
+				}
+				pump();
+			});
+	};
+
+	const remove = (shouldRemove: (transfer: QueuedTransfer) => boolean) => {
+		transfers = transfers.filter((transfer) => {
+			if (!shouldRemove(transfer)) return true;
+			transfer.controller.abort();
+			return false;
+		});
+		pump();
+	};
+
+	const pump = () => {
+		while (countActive() < limits.total) {
+			const next = pickNext();
+			if (!next) break;
+			start(next);
+		}
+		notify();
+	};
+
+	const grantNextTurn = () => {
+		const peerId = rotation[0];
+		const waiting = waitingTurns.get(peerId);
+		if (isTurnTaken || !waiting) return;
+
+		// Send this peer to the back so the others go first next time
+		const grant = waiting.shift();
+		rotation = rotation.slice(1);
+		if (waiting.length > 0) {
+			rotation.push(peerId);
+		} else {
+			waitingTurns.delete(peerId);
+		}
+
+		if (grant) {
+			isTurnTaken = true;
+			grant();
+		}
+	};
+
+	return {
+		enqueue: (transfer, run) => {
+			// A new request for a paused file resumes it
+			transfers = transfers.filter(
+				(t) =>
+					t.state !== "paused" ||
+					t.peerId !== transfer.peerId ||
+					t.fileId !== transfer.fileId,
+			);
+			transfers.push({
+				...transfer,
+				id: crypto.randomUUID(),
+				priority: 0,
+				state: "queued",
+				sequence: sequence++,
+				run,
+				controller: new AbortController(),
+			});
+			pump();
+		},
+		runTurn: async (peerId, send) => {
+			await new Promise<void>((resolve) => {
+				const waiting = waitingTurns.get(peerId);
+				if (waiting) {
+					waiting.push(resolve);
+				} else {
+					waitingTurns.set(peerId, [resolve]);
+					rotation.push(peerId);
+				}
+				grantNextTurn();
+			});
+
+			try {
+				return await send();
+			} finally {
+				isTurnTaken = false;
+				grantNextTurn();
+			}
+		},
+		prioritize: (transferId) => {
+			const transfer = transfers.find((t) => t.id === transferId);
+			if (!transfer || transfer.state !== "queued") return;
+			transfer.priority = Math.max(...transfers.map((t) => t.priority)) + 1;
+			pump();
+		},
+		pause: (peerId, fileId) => {
+			const matching = transfers.filter(
+				(t) => t.peerId === peerId && t.fileId === fileId,
+			);
+			if (matching.length === 0) return;
+
+			// Keep a single paused entry for the file
+			const [paused, ...duplicates] = matching;
+			for (const transfer of matching) {
+				transfer.controller.abort();
+			}
+			paused.state = "paused";
+			transfers = transfers.filter((t) => !duplicates.includes(t));
+			pump();
+		},
+		cancel: (peerId, fileId) =>
+			remove((t) => t.peerId === peerId && t.fileId === fileId),
+		cancelPeer: (peerId) => remove((t) => t.peerId === peerId),
+		cancelFile: (fileId) => remove((t) => t.fileId === fileId),
+		setLimits: (newLimits) => {
+			limits = newLimits;
+			pump();
+		},
+	};
+}
@@ -0,0 +1,278 @@
+import Peer, { type PeerOptions } from "peerjs";
+
+// Which signalling and ICE servers connections go through. Defaults come
+// from build-time env variables and can be overridden in the settings,
+// which are kept in localStorage.
+
+// A self-hosted PeerJS server
+export interface PeerServerConfig {
+	host: string;
+	port: number;
+	path: string;
+	key: string;
+	secure: boolean;
+}
+
+export interface TurnServerConfig {
+	urls: string[];
+	username: string;
+	credential: string;
+}
+
+export interface ServerConfig {
+	peerServer: PeerServerConfig | null; // null uses the public PeerJS cloud
+	stunUrls: string[];
+	turn: TurnServerConfig | null;
+}
+
+export type CheckStatus = "ok" | "failed" | "skipped";
+
+export interface CheckResult {
+	status: CheckStatus;
+	detail: string;
+}
+
+export interface ConnectivityReport {
+	signalling: CheckResult;
+	stun: CheckResult;
+	turn: CheckResult;
+}
+
+const STORAGE_KEY = "serverConfig";
+
+// Google's free STUN servers
+const DEFAULT_STUN_URLS = [
+	"stun:stun.l.google.com:19302",
+	"stun:stun1.l.google.com:19302",
+	"stun:stun2.l.google.com:19302",
+	"stun:stun3.l.google.com:19302",
+	"stun:stun4.l.google.com:19302",
+];
+
+const SIGNALLING_TIMEOUT = 10_000;
+const ICE_GATHERING_TIMEOUT = 5_000;
+
+// Split a comma or whitespace separated list of URLs
+export function parseUrlList(value: string | undefined): string[] {
+	return (value ?? "").split(/[\s,]+/).filter(Boolean);
+}
+
+// Servers configured at build time through VITE_* env variables
+export function getDefaultServerConfig(): ServerConfig {
+	const env = import.meta.env;
+	const turnUrls = parseUrlList(env.VITE_TURN_URLS);
+	const stunUrls = parseUrlList(env.VITE_STUN_URLS);
+
+	return {
+		peerServer: env.VITE_PEER_HOST
+			? {
+					host: env.VITE_PEER_HOST,
+					port: Number(env.VITE_PEER_PORT) || 443,
+					path: env.VITE_PEER_PATH || "/",
+					key: env.VITE_PEER_KEY || "peerjs",
+					secure: env.VITE_PEER_SECURE !== "false",
+				}
+			: null,
+		stunUrls: stunUrls.length > 0 ? stunUrls : DEFAULT_STUN_URLS,
+		turn:
+			turnUrls.length > 0
+				? {
+						urls: turnUrls,
+						username: env.VITE_TURN_USERNAME ?? "",
+						credential: env.VITE_TURN_CREDENTIAL ?? "",
+					}
+				: null,
+	};
+}
+
+function isStringArray(value: unknown): value is string[] {
+	return (
+		Array.isArray(value) && value.every((item) => typeof item === "string")
+	);
+}
+
+function isPeerServerConfig(value: unknown): value is PeerServerConfig {
+	if (typeof value !== "object" || value === null) return false;
+	const server = value as Record<string, unknown>;
+	return (
+		typeof server.host === "string" &&
+		typeof server.port === "number" &&
+		typeof server.path === "string" &&
+		typeof server.key === "string" &&
+		typeof server.secure === "boolean"
+	);
+}
+
+function isTurnServerConfig(value: unknown): value is TurnServerConfig {
+	if (typeof value !== "object" || value === null) return false;
+	const turn = value as Record<string, unknown>;
+	return (
+		isStringArray(turn.urls) &&
+		typeof turn.username === "string" &&
+		typeof turn.credential === "string"
+	);
+}
+
+// Saved settings may be stale or edited by hand, so check their shape
+function isServerConfig(value: unknown): value is ServerConfig {
+	if (typeof value !== "object" || value === null) return false;
+	const config = value as Record<string, unknown>;
+	return (
+		(config.peerServer === null || isPeerServerConfig(config.peerServer)) &&
+		isStringArray(config.stunUrls) &&
+		(config.turn === null || isTurnServerConfig(config.turn))
+	);
+}
+
+// Saved settings, or the build-time defaults if there are none or they're
+// malformed
+export function loadServerConfig(): ServerConfig {
+	try {
+		const saved = localStorage.getItem(STORAGE_KEY);
+		if (saved) {
+			const config: unknown = JSON.parse(saved);
+			if (isServerConfig(config)) return config;
+			console.error("Ignoring malformed server settings");
+		}
+	} catch (error) {
+		console.error("Failed to load server settings:", error);
+	}
+	return getDefaultServerConfig();
+}
+
+// Save settings, or forget them with null to go back to the defaults
+export function saveServerConfig(config: ServerConfig | null) {
+	if (config) {
+		localStorage.setItem(STORAGE_KEY, JSON.stringify(config));
+	} else {
+		localStorage.removeItem(STORAGE_KEY);
+	}
+}
+
+export function getIceServers(config: ServerConfig): RTCIceServer[] {
+	const iceServers: RTCIceServer[] = [];
+	if (config.stunUrls.length > 0) {
+		iceServers.push({ urls: config.stunUrls });
+	}
+	if (config.turn) {
+		iceServers.push({
+			urls: config.turn.urls,
+			username: config.turn.username,
+			credential: config.turn.credential,
+		});
+	}
+	return iceServers;
+}
+
+export function toPeerOptions(config: ServerConfig): PeerOptions {
+	return {
+		...config.peerServer,
+		config: { iceServers: getIceServers(config) },
+	};
+}
+
+// Try the configured servers: register with the signalling server, and
+// gather ICE candidates to see whether STUN finds our public address and
+// TURN hands out a relay
+export async function checkConnectivity(
+	config: ServerConfig,
+): Promise<ConnectivityReport> {
+	const [signalling, stun, turn] = await Promise.all([
+		checkSignalling(config),
+		config.stunUrls.length > 0
+			? checkIceServer({ urls: config.stunUrls }, "srflx")
+			: skipped("No STUN servers configured"),
+		config.turn
+			? checkIceServer(
+					{
+						urls: config.turn.urls,
+						username: config.turn.username,
+						credential: config.turn.credential,
+					},
+					"relay",
+				)
+			: skipped("No TURN server configured"),
+	]);
+	return { signalling, stun, turn };
+}
+
+async function skipped(detail: string): Promise<CheckResult> {
+	return { status: "skipped", detail };
+}
+
+function checkSignalling(config: ServerConfig): Promise<CheckResult> {
+	const host = config.peerServer?.host ?? "the PeerJS cloud";
+
+	return new Promise((resolve) => {
+		const peer = new Peer(toPeerOptions(config));
+		const finish = (result: CheckResult) => {
+			clearTimeout(timeout);
+			peer.destroy();
+			resolve(result);
+		};
+		const timeout = setTimeout(
+			() => finish({ status: "failed", detail: `No answer from ${host}` }),
+			SIGNALLING_TIMEOUT,
+		);
+
+		peer.on("open", () =>
+			finish({ status: "ok", detail: `Registered with ${host}` }),
+		);
+		peer.on("error", (error) =>
+			finish({ status: "failed", detail: error.message }),
+		);
+	});
+}
+
+// Gather candidates through a single server and look for the candidate type
+// it should produce
+async function checkIceServer(
+	server: RTCIceServer,
+	expectedType: RTCIceCandidateType,
+): Promise<CheckResult> {
+	const connection = new RTCPeerConnection({
+		iceServers: [server],
+		iceTransportPolicy: expectedType === "relay" ? "relay" : "all",
+	});
+
+	try {
+		const found = new Promise<boolean>((resolve) => {
+			const timeout = setTimeout(() => resolve(false), ICE_GATHERING_TIMEOUT);
+			connection.onicecandidate = (event) => {
+				if (event.candidate?.type === expectedType) {
+					clearTimeout(timeout);
+					resolve(true);
+				} else if (!event.candidate) {
+					clearTimeout(timeout);
+					resolve(false);
+				}
+			};
+		});
+
+		connection.createDataChannel("connectivity-check");
+		await connection.setLocalDescription(await connection.createOffer());
+
+		return (await found)
+			? {
+					status: "ok",
+					detail:
+						expectedType === "relay"
+							? "Relay address allocated"
+							: "Public address discovered",
+				}
+			: {
+					status: "failed",
+					detail:
+						expectedType === "relay"
+							? "No relay address, check the URLs and credentials"
+							: "No public address, the servers may be unreachable",
+				};
+	} catch (error) {
+		return {
+			status: "failed",
+			detail: error instanceof Error ? error.message : String(error),
+		};
+	} finally {
+		connection.close();
+	}
+}
@@ -0,0 +1,37 @@
+// Links that receivers open or scan to connect to a sender. The fragment holds
+// the sender's peer ID, optionally a fingerprint of its public keys, and an
+// `upload` marker when the sender is asking for files:
+// `#<peerId>.<fingerprint>.upload`. PeerJS IDs never contain a dot.
+export interface ShareLink {
+	peerId: string;
+	fingerprint?: string;
+	isUploadRequest?: boolean;
+}
+
+const UPLOAD_MARKER = "upload";
+
+// Build the full URL for a sender's share link
+export function buildShareLink({
+	peerId,
+	fingerprint,
+	isUploadRequest,
+}: ShareLink): string {
+	const parts = [peerId];
+	if (fingerprint) parts.push(fingerprint);
+	if (isUploadRequest) parts.push(UPLOAD_MARKER);
+	return `${window.location.origin}/dropshare#${parts.join(".")}`;
+}
+
+// Parse a URL fragment (without the leading `#`) into a share link
+export function parseShareFragment(fragment: string): ShareLink | null {
+	if (!fragment) return null;
+
+	const parts = fragment.split(".");
+	const isUploadRequest = parts[parts.length - 1] === UPLOAD_MARKER;
+	if (isUploadRequest) parts.pop();
+
+	const [peerId, fingerprint] = parts;
+	return peerId
+		? { peerId, fingerprint: fingerprint || undefined, isUploadRequest }
+		: null;
+}
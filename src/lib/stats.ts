@@ -0,0 +1,163 @@
+// Live statistics for a single transfer, updated as bytes arrive or are
+// acknowledged
+export interface TransferStats {
+	totalBytes: number;
+	bytesTransferred: number;
+	bytesPerSecond: number; // Smoothed
+	etaSeconds: number | null; // Unknown until we have a speed
+	startedAt: number; // performance.now() timestamps
+	sampledAt: number;
+}
+
+// Totals for everything transferred since the page was opened
+export interface SessionSummary {
+	bytesSent: number;
+	bytesReceived: number;
+	transferSeconds: number; // Time spent on completed transfers
+	peers: Record<string, PeerTransferCount>;
+}
+
+export interface PeerTransferCount {
+	name: string;
+	filesSent: number; // Files we sent to this peer
+	filesReceived: number; // Files we received from this peer
+}
+
+export interface CompletedTransfer {
+	direction: "sent" | "received";
+	peerId: string;
+	peerName: string;
+	bytes: number;
+	seconds: number;
+}
+
+// Speed samples closer together than this are merged into the next one,
+// since chunk arrival is too bursty to measure over shorter spans
+const MIN_SAMPLE_INTERVAL = 0.5;
+
+// How quickly the smoothed speed follows changes, in seconds
+const SPEED_TIME_CONSTANT = 3;
+
+export const EMPTY_SESSION_SUMMARY: SessionSummary = {
+	bytesSent: 0,
+	bytesReceived: 0,
+	transferSeconds: 0,
+	peers: {},
+};
+
+export function createTransferStats(
+	totalBytes: number,
+	now = performance.now(),
+): TransferStats {
+	return {
+		totalBytes,
+		bytesTransferred: 0,
+		bytesPerSecond: 0,
+		etaSeconds: null,
+		startedAt: now,
+		sampledAt: now,
+	};
+}
+
+// Record the new byte count. The speed is an exponential moving average
+// weighted by the time since the last sample, so irregular updates don't
+// skew it.
+export function updateTransferStats(
+	stats: TransferStats,
+	bytesTransferred: number,
+	now = performance.now(),
+): TransferStats {
+	const interval = (now - stats.sampledAt) / 1000;
+	if (interval < MIN_SAMPLE_INTERVAL && bytesTransferred < stats.totalBytes) {
+		return stats;
+	}
+
+	const sampleSpeed =
+		interval > 0
+			? Math.max(0, bytesTransferred - stats.bytesTransferred) / interval
+			: stats.bytesPerSecond;
+	const weight =
+		stats.bytesPerSecond === 0
+			? 1
+			: 1 - Math.exp(-interval / SPEED_TIME_CONSTANT);
+	const bytesPerSecond =
+		stats.bytesPerSecond + (sampleSpeed - stats.bytesPerSecond) * weight;
+	const remainingBytes = Math.max(0, stats.totalBytes - bytesTransferred);
+
+	return {
+		...stats,
+		bytesTransferred,
+		bytesPerSecond,
+		etaSeconds: bytesPerSecond > 0 ? remainingBytes / bytesPerSecond : null,
+		sampledAt: now,
+	};
+}
+
+export function getElapsedSeconds(
+	stats: TransferStats,
+	now = performance.now(),
+) {
+	return (now - stats.startedAt) / 1000;
+}
+
+export function addCompletedTransfer(
+	summary: SessionSummary,
+	transfer: CompletedTransfer,
+): SessionSummary {
+	const peer = summary.peers[transfer.peerId] ?? {
+		name: transfer.peerName,
+		filesSent: 0,
+		filesReceived: 0,
+	};
+	const isSent = transfer.direction === "sent";
+
+	return {
+		bytesSent: summary.bytesSent + (isSent ? transfer.bytes : 0),
+		bytesReceived: summary.bytesReceived + (isSent ? 0 : transfer.bytes),
+		transferSeconds: summary.transferSeconds + transfer.seconds,
+		peers: {
+			...summary.peers,
+			[transfer.peerId]: {
+				...peer,
+				filesSent: peer.filesSent + (isSent ? 1 : 0),
+				filesReceived: peer.filesReceived + (isSent ? 0 : 1),
+			},
+		},
+	};
+}
+
+export function getAverageSpeed(summary: SessionSummary) {
+	const totalBytes = summary.bytesSent + summary.bytesReceived;
+	return summary.transferSeconds > 0 ? totalBytes / summary.transferSeconds : 0;
+}
+
+export function formatBytes(bytes: number) {
+	if (bytes < 1024) return `${bytes} B`;
+	if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+	if (bytes < 1024 * 1024 * 1024) {
+		return `${(bytes / 1024 / 1024).toFixed(1)} MB`;
+	}
+	return `${(bytes / 1024 / 1024 / 1024).toFixed(2)} GB`;
+}
+
+export function formatSpeed(bytesPerSecond: number) {
+	return `${formatBytes(Math.round(bytesPerSecond))}/s`;
+}
+
+// Short human duration such as "45s", "3m 20s" or "1h 5m"
+export function formatDuration(seconds: number) {
+	const total = Math.max(0, Math.round(seconds));
+	const hours = Math.floor(total / 3600);
+	const minutes = Math.floor((total % 3600) / 60);
+	const secs = total % 60;
+
+	if (hours > 0) return `${hours}h ${minutes}m`;
+	if (minutes > 0) return `${minutes}m ${secs}s`;
+	return `${secs}s`;
+}
+
+export function getProgress(stats: TransferStats) {
+	return stats.totalBytes > 0
+		? (stats.bytesTransferred / stats.totalBytes) * 100
+		: 100;
+}
@@ -0,0 +1,95 @@
+import type { DataConnection } from "peerjs";
+
+// Flow control for sending file chunks over a WebRTC data channel
+export const CHUNK_SIZE = 64 * 1024; // 64KB chunks
+
+// Receivers acknowledge their progress every this many chunks (1MB)
+export const PROGRESS_ACK_INTERVAL = 16;
+
+// Receivers pause the sender once this many chunks wait to be written (4MB),
+// and ask for the rest once half of them are
+export const MAX_PENDING_WRITES = 64;
+
+// Pause sending once this many bytes are queued on the data channel.
+// Kept below PeerJS's own 8MB limit so its internal queue stays empty.
+const HIGH_WATER_MARK = 4 * 1024 * 1024;
+
+// Resume sending once the queue has drained below this many bytes
+const LOW_WATER_MARK = 1024 * 1024;
+
+// Wait until the connection's data channel has room for more data.
+// Resolves immediately while below the high watermark, otherwise waits for the
+// channel's `bufferedamountlow` event. Also resolves if the channel closes, so
+// callers should check `conn.open` before sending again.
+export function waitForBufferDrain(conn: DataConnection): Promise<void> {
+	const channel = conn.dataChannel;
+	if (!channel || channel.bufferedAmount < HIGH_WATER_MARK) {
+		return Promise.resolve();
+	}
+
+	channel.bufferedAmountLowThreshold = LOW_WATER_MARK;
+
+	return new Promise((resolve) => {
+		const handleDone = () => {
+			channel.removeEventListener("bufferedamountlow", handleDone);
+			channel.removeEventListener("close", handleDone);
+			resolve();
+		};
+
+		channel.addEventListener("bufferedamountlow", handleDone);
+		channel.addEventListener("close", handleDone);
+
+		// The buffer may have drained between the check above and registering
+		if (channel.bufferedAmount <= LOW_WATER_MARK) {
+			handleDone();
+		}
+	});
+}
+
+// A half-open range of chunk indices: `start` is included, `end` is not
+export interface ChunkRange {
+	start: number;
+	end: number;
+}
+
+// Collapse the chunk indices that have not been received yet into ranges
+export function getMissingRanges(
+	receivedChunks: Set<number>,
+	totalChunks: number,
+): ChunkRange[] {
+	const ranges: ChunkRange[] = [];
+	let start = -1;
+
+	for (let i = 0; i < totalChunks; i++) {
+		if (!receivedChunks.has(i)) {
+			if (start === -1) start = i;
+		} else if (start !== -1) {
+			ranges.push({ start, end: i });
+			start = -1;
+		}
+	}
+	if (start !== -1) {
+		ranges.push({ start, end: totalChunks });
+	}
+
+	return ranges;
+}
+
+// List the chunk indices to send, either the whole file or only the requested
+// ranges clamped to the file's chunk count
+export function getChunkIndices(
+	totalChunks: number,
+	ranges?: ChunkRange[],
+): number[] {
+	if (!ranges) {
+		return Array.from({ length: totalChunks }, (_, i) => i);
+	}
+
+	const indices = new Set<number>();
+	for (const { start, end } of ranges) {
+		for (let i = Math.max(0, start); i < Math.min(end, totalChunks); i++) {
+			indices.add(i);
+		}
+	}
+	return [...indices].sort((a, b) => a - b);
+}
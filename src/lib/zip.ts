@@ -0,0 +1,390 @@
+import type { FileSink } from "@/lib/fileSink";
+
+// Streaming ZIP writer. Entries are stored uncompressed and their checksum
+// and sizes follow the data in a descriptor, so each file is written as its
+// chunks arrive without buffering it first. ZIP64 records are only added
+// when a size or offset doesn't fit in 32 bits.
+
+export interface ZipEntryInfo {
+	path: string;
+	size: number;
+}
+
+// A file being written into the archive. `done` settles once the entry is
+// closed, or rejects if it is aborted.
+export interface ZipEntry extends FileSink {
+	done: Promise<void>;
+}
+
+export interface ZipWriter {
+	// Entries are written one after another; close each before adding the next
+	addEntry: (entry: ZipEntryInfo) => ZipEntry;
+	close: () => Promise<void>;
+	abort: () => Promise<void>;
+}
+
+interface CentralDirectoryEntry {
+	name: Uint8Array;
+	crc: number;
+	size: number;
+	offset: number;
+	isZip64: boolean;
+}
+
+const ZIP64_LIMIT = 0xffffffff;
+const MAX_ENTRIES = 0xffff;
+const VERSION = 20;
+const VERSION_ZIP64 = 45;
+// Bit 3: sizes and checksum follow the data. Bit 11: names are UTF-8.
+const FLAGS = 0x0808;
+
+const encoder = new TextEncoder();
+
+// Size of the archive the writer produces for these entries, in order
+export function getZipSize(entries: ZipEntryInfo[]): number {
+	let offset = 0;
+	let centralDirectorySize = 0;
+
+	for (const { path, size } of entries) {
+		const nameLength = encoder.encode(path).byteLength;
+		const isZip64 = size >= ZIP64_LIMIT;
+		centralDirectorySize += getCentralHeaderSize(
+			nameLength,
+			isZip64 || offset >= ZIP64_LIMIT,
+		);
+		offset +=
+			getLocalHeaderSize(nameLength, isZip64) +
+			size +
+			getDataDescriptorSize(isZip64);
+	}
+
+	return (
+		offset +
+		centralDirectorySize +
+		getEndSize(entries.length, offset, centralDirectorySize)
+	);
+}
+
+export function createZipWriter(sink: FileSink): ZipWriter {
+	const entries: CentralDirectoryEntry[] = [];
+	const modified = getDosDateTime(new Date());
+	let offset = 0;
+	let isEntryOpen = false;
+	let isAborted = false;
+
+	const write = async (data: ArrayBuffer) => {
+		if (isAborted) throw new Error("ZIP archive was aborted");
+		offset += data.byteLength;
+		await sink.write(data);
+	};
+
+	const abort = async () => {
+		if (isAborted) return;
+		isAborted = true;
+		await sink.abort();
+	};
+
+	const addEntry = ({ path, size }: ZipEntryInfo): ZipEntry => {
+		if (isEntryOpen) throw new Error("Previous ZIP entry is still open");
+		isEntryOpen = true;
+
+		const name = encoder.encode(path);
+		const isZip64 = size >= ZIP64_LIMIT;
+		let localHeaderOffset: number | null = null;
+		let crc = CRC32_INITIAL;
+		let written = 0;
+
+		let resolveDone!: () => void;
+		let rejectDone!: (reason: Error) => void;
+		const done = new Promise<void>((resolve, reject) => {
+			resolveDone = resolve;
+			rejectDone = reject;
+		});
+
+		const start = async () => {
+			if (localHeaderOffset !== null) return;
+			localHeaderOffset = offset;
+			await write(createLocalHeader(name, isZip64, modified));
+		};
+
+		return {
+			done,
+			write: async (chunk) => {
+				await start();
+				// Checksum before writing, the sink may take ownership of the chunk
+				crc = updateCrc32(crc, new Uint8Array(chunk));
+				written += chunk.byteLength;
+				await write(chunk);
+			},
+			close: async () => {
+				await start();
+				const finalCrc = finishCrc32(crc);
+				await write(createDataDescriptor(finalCrc, written, isZip64));
+				entries.push({
+					name,
+					crc: finalCrc,
+					size: written,
+					offset: localHeaderOffset ?? 0,
+					isZip64,
+				});
+				isEntryOpen = false;
+				resolveDone();
+			},
+			// A half-written entry can't be taken back, so the archive goes too
+			abort: async () => {
+				isEntryOpen = false;
+				await abort();
+				rejectDone(new Error(`Failed to add ${path} to the ZIP archive`));
+			},
+		};
+	};
+
+	const close = async () => {
+		const centralDirectoryOffset = offset;
+		for (const entry of entries) {
+			await write(createCentralHeader(entry, modified));
+		}
+		const centralDirectorySize = offset - centralDirectoryOffset;
+		await write(
+			createEnd(entries.length, centralDirectoryOffset, centralDirectorySize),
+		);
+		await sink.close();
+	};
+
+	return { addEntry, close, abort };
+}
+
+function getLocalHeaderSize(nameLength: number, isZip64: boolean) {
+	return 30 + nameLength + (isZip64 ? 20 : 0);
+}
+
+function getDataDescriptorSize(isZip64: boolean) {
+	return isZip64 ? 24 : 16;
+}
+
+function getCentralHeaderSize(nameLength: number, isZip64: boolean) {
+	return 46 + nameLength + (isZip64 ? 28 : 0);
+}
+
+function needsZip64End(
+	entryCount: number,
+	centralDirectoryOffset: number,
+	centralDirectorySize: number,
+) {
+	return (
+		entryCount >= MAX_ENTRIES ||
+		centralDirectoryOffset >= ZIP64_LIMIT ||
+		centralDirectorySize >= ZIP64_LIMIT
+	);
+}
+
+function getEndSize(
+	entryCount: number,
+	centralDirectoryOffset: number,
+	centralDirectorySize: number,
+) {
+	const zip64EndSize = needsZip64End(
+		entryCount,
+		centralDirectoryOffset,
+		centralDirectorySize,
+	)
+		? 56 + 20
+		: 0;
+	return zip64EndSize + 22;
+}
+
+function createLocalHeader(
+	name: Uint8Array,
+	isZip64: boolean,
+	modified: DosDateTime,
+) {
+	const record = createRecord(getLocalHeaderSize(name.byteLength, isZip64));
+	record.u32(0x04034b50);
+	record.u16(isZip64 ? VERSION_ZIP64 : VERSION);
+	record.u16(FLAGS);
+	record.u16(0); // Stored
+	record.u16(modified.time);
+	record.u16(modified.date);
+	record.u32(0); // Checksum and sizes are in the data descriptor
+	record.u32(isZip64 ? ZIP64_LIMIT : 0);
+	record.u32(isZip64 ? ZIP64_LIMIT : 0);
+	record.u16(name.byteLength);
+	record.u16(isZip64 ? 20 : 0);
+	record.bytes(name);
+	if (isZip64) {
+		record.u16(0x0001);
+		record.u16(16);
+		record.u64(0);
+		record.u64(0);
+	}
+	return record.buffer;
+}
+
+function createDataDescriptor(crc: number, size: number, isZip64: boolean) {
+	const record = createRecord(getDataDescriptorSize(isZip64));
+	record.u32(0x08074b50);
+	record.u32(crc);
+	if (isZip64) {
+		record.u64(size);
+		record.u64(size);
+	} else {
+		record.u32(size);
+		record.u32(size);
+	}
+	return record.buffer;
+}
+
+function createCentralHeader(
+	entry: CentralDirectoryEntry,
+	modified: DosDateTime,
+) {
+	const isZip64 = entry.isZip64 || entry.offset >= ZIP64_LIMIT;
+	const record = createRecord(
+		getCentralHeaderSize(entry.name.byteLength, isZip64),
+	);
+	record.u32(0x02014b50);
+	record.u16(VERSION_ZIP64); // Made by
+	record.u16(isZip64 ? VERSION_ZIP64 : VERSION);
+	record.u16(FLAGS);
+	record.u16(0); // Stored
+	record.u16(modified.time);
+	record.u16(modified.date);
+	record.u32(entry.crc);
+	record.u32(isZip64 ? ZIP64_LIMIT : entry.size);
+	record.u32(isZip64 ? ZIP64_LIMIT : entry.size);
+	record.u16(entry.name.byteLength);
+	record.u16(isZip64 ? 28 : 0);
+	record.u16(0); // Comment length
+	record.u16(0); // Disk number
+	record.u16(0); // Internal attributes
+	record.u32(0); // External attributes
+	record.u32(isZip64 ? ZIP64_LIMIT : entry.offset);
+	record.bytes(entry.name);
+	if (isZip64) {
+		record.u16(0x0001);
+		record.u16(24);
+		record.u64(entry.size);
+		record.u64(entry.size);
+		record.u64(entry.offset);
+	}
+	return record.buffer;
+}
+
+function createEnd(
+	entryCount: number,
+	centralDirectoryOffset: number,
+	centralDirectorySize: number,
+) {
+	const isZip64 = needsZip64End(
+		entryCount,
+		centralDirectoryOffset,
+		centralDirectorySize,
+	);
+	const record = createRecord(
+		getEndSize(entryCount, centralDirectoryOffset, centralDirectorySize),
+	);
+
+	if (isZip64) {
+		const zip64EndOffset = centralDirectoryOffset + centralDirectorySize;
+		record.u32(0x06064b50);
+		record.u64(44); // Size of the rest of this record
+		record.u16(VERSION_ZIP64);
+		record.u16(VERSION_ZIP64);
+		record.u32(0);
+		record.u32(0);
+		record.u64(entryCount);
+		record.u64(entryCount);
+		record.u64(centralDirectorySize);
+		record.u64(centralDirectoryOffset);
+
+		record.u32(0x07064b50);
+		record.u32(0);
+		record.u64(zip64EndOffset);
+		record.u32(1);
+	}
+
+	record.u32(0x06054b50);
+	record.u16(0);
+	record.u16(0);
+	record.u16(Math.min(entryCount, MAX_ENTRIES));
+	record.u16(Math.min(entryCount, MAX_ENTRIES));
+	record.u32(Math.min(centralDirectorySize, ZIP64_LIMIT));
+	record.u32(Math.min(centralDirectoryOffset, ZIP64_LIMIT));
+	record.u16(0); // Comment length
+	return record.buffer;
+}
+
+// Little-endian record builder
+function createRecord(size: number) {
+	const buffer = new ArrayBuffer(size);
+	const view = new DataView(buffer);
+	let position = 0;
+
+	return {
+		buffer,
+		u16: (value: number) => {
+			view.setUint16(position, value, true);
+			position += 2;
+		},
+		u32: (value: number) => {
+			view.setUint32(position, value, true);
+			position += 4;
+		},
+		u64: (value: number) => {
+			view.setBigUint64(position, BigInt(value), true);
+			position += 8;
+		},
+		bytes: (value: Uint8Array) => {
+			new Uint8Array(buffer, position, value.byteLength).set(value);
+			position += value.byteLength;
+		},
+	};
+}
+
+interface DosDateTime {
+	time: number;
+	date: number;
+}
+
+function getDosDateTime(date: Date): DosDateTime {
+	return {
+		time:
+			(date.getHours() << 11) |
+			(date.getMinutes() << 5) |
+			(date.getSeconds() >> 1),
+		date:
+			((date.getFullYear() - 1980) << 9) |
+			((date.getMonth() + 1) << 5) |
+			date.getDate(),
+	};
+}
+
+const CRC32_INITIAL = 0xffffffff;
+let crc32Table: Uint32Array | null = null;
+
+function getCrc32Table() {
+	if (!crc32Table) {
+		crc32Table = new Uint32Array(256);
+		for (let n = 0; n < 256; n++) {
+			let c = n;
+			for (let k = 0; k < 8; k++) {
+				c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+			}
+			crc32Table[n] = c >>> 0;
+		}
+	}
+	return crc32Table;
+}
+
+function updateCrc32(crc: number, data: Uint8Array) {
+	const table = getCrc32Table();
+	let c = crc;
+	for (let i = 0; i < data.length; i++) {
+		c = table[(c ^ data[i]) & 0xff] ^ (c >>> 8);
+	}
+	return c >>> 0;
+}
+
+function finishCrc32(crc: number) {
+	return (crc ^ CRC32_INITIAL) >>> 0;
+}
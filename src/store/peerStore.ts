@@ -1,29 +1,90 @@
 import type { DataConnection } from "peerjs";
 import { create } from "zustand";
-import type { KeyPair } from "@/lib/crypto";
+import type { KeyPair, PakeState, SessionKeys } from "@/lib/crypto";
+import {
+	type DeviceIdentity,
+	deleteKnownDevice,
+	type KnownDevice,
+	readIdentity,
+	readKnownDevices,
+	writeIdentity,
+	writeKnownDevices,
+} from "@/lib/identity";
+import { DEFAULT_TRANSFER_LIMITS, type TransferLimits } from "@/lib/scheduler";
+import {
+	getDefaultServerConfig,
+	loadServerConfig,
+	type ServerConfig,
+	saveServerConfig,
+} from "@/lib/servers";
 
 export interface PeerKeys {
 	dhPublicKey: Uint8Array;
 	signingPublicKey: Uint8Array;
-	sharedKey?: Uint8Array;
+	sessionKeys?: SessionKeys; // Once derived from the handshake transcript
+}
+
+// Progress of a PIN handshake with one peer
+export interface PakeSession {
+	state?: PakeState; // Our half, once we know the PIN
+	peerShare?: Uint8Array; // Their half, once received
+	key?: Uint8Array; // PIN-derived key, once both halves are known
 }
 
 interface PeerState {
 	isSender: boolean;
 	setIsSender: (isSender: boolean) => void;
 
+	// Hold newly verified receivers until the sender accepts them
+	requireApproval: boolean;
+	setRequireApproval: (requireApproval: boolean) => void;
+
+	// PIN that receivers must enter, or null for an unprotected share
+	sharePin: string | null;
+	setSharePin: (sharePin: string | null) => void;
+
+	// How many outgoing transfers may run at once
+	transferLimits: TransferLimits;
+	setTransferLimits: (transferLimits: TransferLimits) => void;
+
+	// Signalling and ICE servers. Saved across visits; null goes back to the
+	// build-time defaults.
+	serverConfig: ServerConfig;
+	setServerConfig: (serverConfig: ServerConfig | null) => void;
+
+	// Opt-in long-term identity of this device, and the devices seen before.
+	// Kept in IndexedDB; changes are saved in the background.
+	identity: DeviceIdentity | null;
+	setIdentity: (identity: DeviceIdentity | null) => void;
+	knownDevices: KnownDevice[];
+	rememberDevices: (devices: KnownDevice[]) => void; // Adds or replaces
+	forgetDevice: (deviceId: string) => void;
+	restoreIdentity: () => Promise<DeviceIdentity | null>;
+
 	dhKeyPair: KeyPair | null;
 	signingKeyPair: KeyPair | null;
 	setCryptoKeys: (dhKeyPair: KeyPair, signingKeyPair: KeyPair) => void;
 
 	peerKeys: Record<string, PeerKeys>;
 	addPeerKeys: (peerId: string, keys: PeerKeys) => void;
-	updatePeerSharedKey: (peerId: string, sharedKey: Uint8Array) => void;
+	updatePeerSessionKeys: (peerId: string, sessionKeys: SessionKeys) => void;
 
 	challenges: Record<string, ArrayBuffer>;
 	addChallenge: (peerId: string, challenge: ArrayBuffer) => void;
 	removeChallenge: (peerId: string) => void;
 
+	pakeSessions: Record<string, PakeSession>;
+	updatePakeSession: (peerId: string, session: PakeSession) => void;
+	removePakeSession: (peerId: string) => void;
+
+	failedPinAttempts: Record<string, number>;
+	recordFailedPinAttempt: (peerId: string) => number;
+	// Wrong PINs entered by all receivers since the PIN was set. Too many lock
+	// the PIN until the sender sets a new one.
+	pinFailures: number;
+	isPinLocked: boolean;
+	lockSharePin: () => void;
+
 	senderConnection: DataConnection | null;
 	setSenderConnection: (connection: DataConnection | null) => void;
 }
@@ -32,6 +93,65 @@ export const usePeerStore = create<PeerState>((set, get) => ({
 	isSender: false,
 	setIsSender: (isSender) => set({ isSender }),
 
+	requireApproval: false,
+	setRequireApproval: (requireApproval) => set({ requireApproval }),
+
+	sharePin: null,
+	setSharePin: (sharePin) =>
+		set((state) =>
+			sharePin === state.sharePin
+				? {}
+				: { sharePin, pinFailures: 0, isPinLocked: false },
+		),
+
+	transferLimits: DEFAULT_TRANSFER_LIMITS,
+	setTransferLimits: (transferLimits) => set({ transferLimits }),
+
+	serverConfig: loadServerConfig(),
+	setServerConfig: (serverConfig) => {
+		saveServerConfig(serverConfig);
+		set({ serverConfig: serverConfig ?? getDefaultServerConfig() });
+	},
+
+	identity: null,
+	setIdentity: (identity) => {
+		writeIdentity(identity).catch((error) => {
+			console.error("Failed to save device identity:", error);
+		});
+		set({ identity });
+	},
+	knownDevices: [],
+	rememberDevices: (devices) => {
+		writeKnownDevices(devices).catch((error) => {
+			console.error("Failed to save known devices:", error);
+		});
+		const ids = new Set(devices.map((device) => device.id));
+		set((state) => ({
+			knownDevices: [
+				...state.knownDevices.filter((device) => !ids.has(device.id)),
+				...devices,
+			],
+		}));
+	},
+	forgetDevice: (deviceId) => {
+		deleteKnownDevice(deviceId).catch((error) => {
+			console.error("Failed to remove known device:", error);
+		});
+		set((state) => ({
+			knownDevices: state.knownDevices.filter(
+				(device) => device.id !== deviceId,
+			),
+		}));
+	},
+	restoreIdentity: async () => {
+		const [identity, knownDevices] = await Promise.all([
+			readIdentity(),
+			readKnownDevices(),
+		]);
+		set({ identity, knownDevices });
+		return identity;
+	},
+
 	dhKeyPair: null,
 	signingKeyPair: null,
 	setCryptoKeys: (dhKeyPair, signingKeyPair) =>
@@ -42,13 +162,13 @@ export const usePeerStore = create<PeerState>((set, get) => ({
 		set((state) => ({
 			peerKeys: { ...state.peerKeys, [peerId]: keys },
 		})),
-	updatePeerSharedKey: (peerId, sharedKey) => {
+	updatePeerSessionKeys: (peerId, sessionKeys) => {
 		const peerKeys = get().peerKeys[peerId];
 		if (peerKeys) {
 			set((state) => ({
 				peerKeys: {
 					...state.peerKeys,
-					[peerId]: { ...peerKeys, sharedKey },
+					[peerId]: { ...peerKeys, sessionKeys },
 				},
 			}));
 		}
@@ -66,6 +186,34 @@ export const usePeerStore = create<PeerState>((set, get) => ({
 			return { challenges: newChallenges };
 		}),
 
+	pakeSessions: {},
+	updatePakeSession: (peerId, session) =>
+		set((state) => ({
+			pakeSessions: {
+				...state.pakeSessions,
+				[peerId]: { ...state.pakeSessions[peerId], ...session },
+			},
+		})),
+	removePakeSession: (peerId) =>
+		set((state) => {
+			const newSessions = { ...state.pakeSessions };
+			delete newSessions[peerId];
+			return { pakeSessions: newSessions };
+		}),
+
+	failedPinAttempts: {},
+	recordFailedPinAttempt: (peerId) => {
+		const attempts = (get().failedPinAttempts[peerId] ?? 0) + 1;
+		set((state) => ({
+			failedPinAttempts: { ...state.failedPinAttempts, [peerId]: attempts },
+			pinFailures: state.pinFailures + 1,
+		}));
+		return attempts;
+	},
+	pinFailures: 0,
+	isPinLocked: false,
+	lockSharePin: () => set({ isPinLocked: true }),
+
 	senderConnection: null,
 	setSenderConnection: (connection) => set({ senderConnection: connection }),
 }));
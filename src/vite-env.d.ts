@@ -1 +1,14 @@
 /// <reference types="vite/client" />
+
+// Build-time server settings, see src/lib/servers.ts
+interface ImportMetaEnv {
+	readonly VITE_PEER_HOST?: string;
+	readonly VITE_PEER_PORT?: string;
+	readonly VITE_PEER_PATH?: string;
+	readonly VITE_PEER_KEY?: string;
+	readonly VITE_PEER_SECURE?: string;
+	readonly VITE_STUN_URLS?: string;
+	readonly VITE_TURN_URLS?: string;
+	readonly VITE_TURN_USERNAME?: string;
+	readonly VITE_TURN_CREDENTIAL?: string;
+}